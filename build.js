@@ -4,10 +4,11 @@ const args = process.argv.slice(2);
 const isDev = args.length > 0 && args[0] === "dev";
 
 const sharedConfig = {
-  entryPoints: ["src/index.ts", "src/index.html", "src/resources/**/*"],
+  entryPoints: ["src/index.ts", "src/ephemeris-worker.ts", "src/index.html", "src/resources/**/*"],
   loader: {
     ".html": "copy",
     ".dat": "copy",
+    ".json": "copy",
     ".440": "empty",
     ".jpg": "copy",
     ".png": "copy",
@@ -1,13 +1,45 @@
 import path from "path";
 import fs from "fs/promises";
-import { SectionMap, SeriesCopyMetadata, SeriesSection, SourceBlock } from "./ephem-gen-types";
+import { parseArgs } from "util";
+import { DestRange, SectionMap, SeriesCopyMetadata, SeriesSection, SourceBlock } from "./ephem-gen-types";
 import { testDestEphemeris } from "./ephem-test";
-import { Ephemeris, MetadataMap, SeriesMetadata, SeriesType } from "../src/ephemeris";
+import { formatAccuracyReport, getSmallestCoeffCount, getTruncationAccuracies } from "./ephem-accuracy";
+import { BinaryEphemeris, MetadataMap, SeriesMetadata, SeriesType } from "../src/ephemeris";
+import { getEphemerisFileHeaderSize, readEphemerisFileHeader, writeEphemerisFileHeader } from "../src/ephemeris-file";
+import {
+  ChunkedEphemeris,
+  EphemerisChunk,
+  EphemerisIndex,
+  ephemerisIndexFileName,
+  ephemerisIndexVersion,
+} from "../src/ephemeris-chunks";
 import { JPLDE } from "./jplde";
 import { testAll } from "./jplde-test";
 
 const srcEphemerisPath = path.join(process.cwd(), "src/resources/linux_p1550p2650.440");
 const destEphemerisPath = path.join(process.cwd(), "src/resources/ephemeris.dat");
+const destChunkDirPath = path.join(process.cwd(), "src/resources/ephemeris");
+
+// Years covered by each of the chunks loaded by the app.
+const chunkYearCount = 10;
+
+const usage = `
+Usage: tsx ./build/create-ephemeris.ts [options]
+
+Copies the series we need from the DE440 file in src/resources into src/resources/ephemeris.dat, and into a file
+per decade in src/resources/ephemeris (with an index.json describing them) for the app to load as needed.
+
+Options:
+  --start <date>     Start of the period to include (default: 2000-01-01)
+  --end <date>       End of the period to include (default: 2099-12-31)
+  --series <names>   Comma-separated series to include: emb, moon, sun (default: all, which the app needs)
+  --coeffs <counts>  Coefficients to keep for each property of a series, e.g. sun=4,moon=13
+                     (default: sun=4 and all of the others)
+  --target-error <km>
+                     Keep the fewest coefficients whose maximum position error is within this distance, for the
+                     series not given in --coeffs
+  --help             Show this message
+`;
 
 const ncoeff = 1018; // From header NCOEFF
 const blockByteCount = ncoeff * 8;
@@ -37,7 +69,13 @@ From header GROUP 1050
 ---
 */
 
-const metadataItems: SeriesCopyMetadata[] = [
+const seriesNames: { [name: string]: SeriesType } = {
+  emb: SeriesType.SsbToEmb,
+  moon: SeriesType.EarthToMoon,
+  sun: SeriesType.SsbToSun,
+};
+
+const defaultMetadataItems: SeriesCopyMetadata[] = [
   {
     seriesType: SeriesType.SsbToEmb,
     seriesIndex: 2,
@@ -76,44 +114,156 @@ const metadataItems: SeriesCopyMetadata[] = [
   // },
 ];
 
-const includeStartDate = toJulianDate(new Date("2000-01-01T00:00:00Z"));
-const includeEndDate = toJulianDate(new Date("2099-12-31T00:00:00Z"));
-
-const readFirstBlock = getSourceBlock(includeStartDate);
-const readLastBlock = getSourceBlock(includeEndDate);
-const readBlockCount = readLastBlock.index - readFirstBlock.index + 1;
-const destDuration = readLastBlock.startJulianDate - readFirstBlock.startJulianDate + srcDaysPerBlock;
+const defaultStartDate = "2000-01-01T00:00:00Z";
+const defaultEndDate = "2099-12-31T00:00:00Z";
 
 (async function () {
+  const { values } = parseArgs({
+    options: {
+      start: { type: "string", default: defaultStartDate },
+      end: { type: "string", default: defaultEndDate },
+      series: { type: "string", default: Object.keys(seriesNames).join(",") },
+      coeffs: { type: "string", default: "" },
+      "target-error": { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+
+  const seriesItems = parseSeries(values.series!);
+  const coeffCounts = parseCoeffCounts(values.coeffs!);
+  const targetErrorKm = values["target-error"] !== undefined ? parseTargetError(values["target-error"]) : null;
+
   // Load and run all tests on the source ephemeris to validate the data we'll be copying.
   const jplde = await readSourceEphemeris();
   testAll(jplde);
 
-  // Calculate the section sizes for each data series.
-  const sectionMap = buildSectionMap();
+  const destRange = getDestRange(jplde, parseDate(values.start!), parseDate(values.end!));
+
+  // Compare the truncated series with the originals, and choose how many coefficients to keep.
+  const metadataItems = seriesItems.map((metadata) => {
+    const accuracies = getTruncationAccuracies(jplde, metadata, destRange);
+    const destCoeffCount =
+      coeffCounts.get(metadata.seriesType) ??
+      (targetErrorKm !== null ? getSmallestCoeffCount(accuracies, targetErrorKm) : metadata.destCoeffCount);
+
+    const selectedMetadata = asValidCoeffCount(metadata, destCoeffCount);
+    console.log(`${formatAccuracyReport(selectedMetadata, accuracies)}\n`);
+    return selectedMetadata;
+  });
 
   // Copy selected data to destination ephemeris data file.
-  await buildDestEphemeris(jplde.data, sectionMap);
+  await fs.writeFile(destEphemerisPath, buildDestEphemeris(jplde, metadataItems, destRange), "binary");
 
   // Load and test the newly built ephemeris.
-  const ephem = await loadDestEphemeris(sectionMap);
+  const { ephem, header } = await loadDestEphemeris();
   testDestEphemeris(ephem);
 
-  // Log the parameters needed to create the new ephemeris.
-  const metadataMap = createMetadataMap(sectionMap);
-  metadataMap.forEach((metadata) => {
+  // Log the contents of the header.
+  header.metadataMap.forEach((metadata) => {
     console.log(`${SeriesType[metadata.seriesType]}: ${JSON.stringify(metadata, null, 2)}`);
   });
 
-  const destStartDate = readFirstBlock.startJulianDate;
-  console.log(`Start date: ${destStartDate} (${toJSDate(destStartDate).toISOString()})`);
+  console.log(`DE${header.deNumber}, format version ${header.version}, checksum ${header.checksum}`);
+  console.log(`Start date: ${header.startJulianDate} (${toJSDate(header.startJulianDate).toISOString()})`);
+  console.log(`End date: ${ephem.getEndJulianDate()} (${toJSDate(ephem.getEndJulianDate()).toISOString()})`);
+
+  // The app only reads ephemerides that contain every series.
+  if (metadataItems.length < defaultMetadataItems.length) {
+    console.log("Not writing the chunk files, which need every series.");
+    return;
+  }
+
+  const index = await writeChunks(jplde, metadataItems, destRange);
+  const chunkedEphem = new ChunkedEphemeris(index, readChunk);
+  await chunkedEphem.loadRange(index.startJulianDate, index.endJulianDate);
+  testDestEphemeris(chunkedEphem);
+  console.log(`Wrote ${index.chunks.length} chunks: ${index.chunks.map((c) => c.fileName).join(", ")}`);
 })();
 
-function buildSectionMap(): SectionMap {
+function parseSeries(text: string): SeriesCopyMetadata[] {
+  const names = text.split(",").map((name) => name.trim());
+  const unknownNames = names.filter((name) => !(name in seriesNames));
+  if (unknownNames.length > 0) {
+    throw new Error(`Unknown series: ${unknownNames.join(", ")}. Expected ${Object.keys(seriesNames).join(", ")}.`);
+  }
+
+  const seriesTypes = names.map((name) => seriesNames[name]);
+  return defaultMetadataItems.filter((metadata) => seriesTypes.includes(metadata.seriesType));
+}
+
+function parseCoeffCounts(text: string): Map<SeriesType, number> {
+  const coeffCounts = new Map<SeriesType, number>();
+  for (const item of text.split(",").filter((item) => item.trim() !== "")) {
+    const [name, countText] = item.split("=").map((part) => part.trim());
+    if (!(name in seriesNames)) {
+      throw new Error(`Unknown series in coefficient counts: ${name}`);
+    }
+
+    coeffCounts.set(seriesNames[name], Number(countText));
+  }
+
+  return coeffCounts;
+}
+
+function asValidCoeffCount(metadata: SeriesCopyMetadata, destCoeffCount: number): SeriesCopyMetadata {
+  if (!Number.isInteger(destCoeffCount) || destCoeffCount < 1 || destCoeffCount > metadata.srcCoeffCount) {
+    throw new Error(
+      `Coefficient count for ${SeriesType[metadata.seriesType]} must be between 1 and ${metadata.srcCoeffCount}.`
+    );
+  }
+
+  return { ...metadata, destCoeffCount };
+}
+
+function parseTargetError(text: string): number {
+  const targetErrorKm = Number(text);
+  if (!(targetErrorKm > 0)) {
+    throw new Error(`Target error must be a positive number of km: ${text}`);
+  }
+
+  return targetErrorKm;
+}
+
+function parseDate(text: string): Date {
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${text}`);
+  }
+
+  return date;
+}
+
+function getDestRange(jplde: JPLDE, startDate: Date, endDate: Date): DestRange {
+  const includeStartDate = toJulianDate(startDate);
+  const includeEndDate = toJulianDate(endDate);
+  if (includeStartDate >= includeEndDate) {
+    throw new Error("Start date must be before end date.");
+  }
+
+  const { jdStart, jdEnd } = jplde.getHeader();
+  if (includeStartDate < jdStart || includeEndDate >= jdEnd) {
+    throw new Error(`Dates must be within ${toJSDate(jdStart).toISOString()} and ${toJSDate(jdEnd).toISOString()}.`);
+  }
+
+  const firstBlock = getSourceBlock(includeStartDate);
+  const lastBlock = getSourceBlock(includeEndDate);
+  return {
+    firstBlock,
+    blockCount: lastBlock.index - firstBlock.index + 1,
+    durationDays: lastBlock.startJulianDate - firstBlock.startJulianDate + srcDaysPerBlock,
+  };
+}
+
+function buildSectionMap(metadataItems: SeriesCopyMetadata[], destRange: DestRange): SectionMap {
   const sectionMap = new Map<SeriesType, SeriesSection>();
-  let offset = 0;
+  let offset = getEphemerisFileHeaderSize(metadataItems.length);
   metadataItems.forEach((metadata) => {
-    const sizeInBytes = getDestSeriesSizeInBytes(metadata);
+    const sizeInBytes = getDestSeriesSizeInBytes(metadata, destRange);
     sectionMap.set(metadata.seriesType, { offset, sizeInBytes });
     offset += sizeInBytes;
   });
@@ -121,7 +271,7 @@ function buildSectionMap(): SectionMap {
   return sectionMap;
 }
 
-function createMetadataMap(sectionMap: SectionMap): MetadataMap {
+function createMetadataMap(metadataItems: SeriesCopyMetadata[], sectionMap: SectionMap): MetadataMap {
   const metadataMap = new Map<SeriesType, SeriesMetadata>();
   metadataItems.forEach((metadata) => {
     const section = sectionMap.get(metadata.seriesType)!;
@@ -132,6 +282,8 @@ function createMetadataMap(sectionMap: SectionMap): MetadataMap {
       coeffCount: metadata.destCoeffCount,
       offset: section.offset,
       sizeInBytes: section.sizeInBytes,
+      intervalsPerBlock: 1,
+      blockSizeInBytes: getSubintervalSizeInBytes(metadata.destCoeffCount, metadata.propCount),
     });
   });
 
@@ -144,30 +296,118 @@ async function readSourceEphemeris() {
   return new JPLDE(srcDataView);
 }
 
-async function loadDestEphemeris(sectionMap: SectionMap): Promise<Ephemeris> {
+async function loadDestEphemeris() {
   const buffer = await fs.readFile(destEphemerisPath);
-  const dataView = new DataView(buffer.buffer);
-  return new Ephemeris(dataView, createMetadataMap(sectionMap), readFirstBlock.startJulianDate);
+  const dataView = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+  // Not using createEphemerisFromFile, which requires every series.
+  const header = readEphemerisFileHeader(dataView);
+  const ephem = new BinaryEphemeris(dataView, header.metadataMap, header.startJulianDate, header.earthToMoonRatio);
+  return { ephem, header };
 }
 
-async function buildDestEphemeris(srcDataView: DataView, sectionMap: SectionMap) {
+function buildDestEphemeris(jplde: JPLDE, metadataItems: SeriesCopyMetadata[], destRange: DestRange): DataView {
+  const sectionMap = buildSectionMap(metadataItems, destRange);
+  const srcDataView = jplde.data;
   const destFileSize = [...sectionMap.values()].reduce((len, curr) => Math.max(len, curr.offset + curr.sizeInBytes), 0);
   const destBuffer = new ArrayBuffer(destFileSize);
   const destDataView = new DataView(destBuffer);
 
   for (const metadata of metadataItems) {
     const section = sectionMap.get(metadata.seriesType)!;
-    for (let blockIndex = 0; blockIndex < readBlockCount; blockIndex++) {
-      copyBlock(metadata, section, srcDataView, destDataView, blockIndex);
+    for (let blockIndex = 0; blockIndex < destRange.blockCount; blockIndex++) {
+      copyBlock(metadata, section, srcDataView, destDataView, destRange.firstBlock.index + blockIndex, blockIndex);
     }
   }
 
-  await fs.writeFile(destEphemerisPath, destDataView, "binary");
+  const srcHeader = jplde.getHeader();
+  writeEphemerisFileHeader(destDataView, {
+    deNumber: srcHeader.version,
+    startJulianDate: destRange.firstBlock.startJulianDate,
+    earthToMoonRatio: srcHeader.emrat,
+    metadataMap: createMetadataMap(metadataItems, sectionMap),
+  });
+
+  return destDataView;
+}
+
+/**
+ * Splits the range into chunks that start at the source block containing the start of each decade.
+ */
+function getChunkRanges(destRange: DestRange): DestRange[] {
+  const endBlockIndex = destRange.firstBlock.index + destRange.blockCount;
+  const firstYear = toJSDate(destRange.firstBlock.startJulianDate).getUTCFullYear();
+  const chunkStartBlocks = [destRange.firstBlock];
+  for (let year = Math.floor(firstYear / chunkYearCount + 1) * chunkYearCount; ; year += chunkYearCount) {
+    // The last block only covers the end date, so don't start a chunk for the following decade in it.
+    const block = getSourceBlock(toJulianDate(new Date(Date.UTC(year, 0, 1))));
+    if (block.index >= endBlockIndex - 1) {
+      break;
+    }
+
+    if (block.index > destRange.firstBlock.index) {
+      chunkStartBlocks.push(block);
+    }
+  }
+
+  return chunkStartBlocks.map((firstBlock, i) => {
+    const nextBlockIndex = i + 1 < chunkStartBlocks.length ? chunkStartBlocks[i + 1].index : endBlockIndex;
+    const blockCount = nextBlockIndex - firstBlock.index;
+    return { firstBlock, blockCount, durationDays: blockCount * srcDaysPerBlock };
+  });
+}
+
+async function writeChunks(
+  jplde: JPLDE,
+  metadataItems: SeriesCopyMetadata[],
+  destRange: DestRange
+): Promise<EphemerisIndex> {
+  // Remove the chunks from any previous run, which may cover different dates.
+  await fs.rm(destChunkDirPath, { recursive: true, force: true });
+  await fs.mkdir(destChunkDirPath, { recursive: true });
+
+  const chunks: EphemerisChunk[] = [];
+  for (const chunkRange of getChunkRanges(destRange)) {
+    const dataView = buildDestEphemeris(jplde, metadataItems, chunkRange);
+    const header = readEphemerisFileHeader(dataView);
+
+    // Name the chunk after the decade it was cut for (the first one may start before it).
+    const decadeStartDate = toJSDate(chunkRange.firstBlock.startJulianDate + srcDaysPerBlock);
+    const decade = Math.floor(decadeStartDate.getUTCFullYear() / chunkYearCount) * chunkYearCount;
+    const fileName = `${decade}.dat`;
+
+    await fs.writeFile(path.join(destChunkDirPath, fileName), dataView, "binary");
+    chunks.push({
+      fileName,
+      startJulianDate: chunkRange.firstBlock.startJulianDate,
+      endJulianDate: chunkRange.firstBlock.startJulianDate + chunkRange.durationDays,
+      sizeInBytes: dataView.byteLength,
+      checksum: header.checksum,
+    });
+  }
+
+  const srcHeader = jplde.getHeader();
+  const index: EphemerisIndex = {
+    version: ephemerisIndexVersion,
+    deNumber: srcHeader.version,
+    earthToMoonRatio: srcHeader.emrat,
+    startJulianDate: chunks[0].startJulianDate,
+    endJulianDate: chunks[chunks.length - 1].endJulianDate,
+    chunks,
+  };
+
+  await fs.writeFile(path.join(destChunkDirPath, ephemerisIndexFileName), JSON.stringify(index, null, 2) + "\n");
+  return index;
+}
+
+async function readChunk(chunk: EphemerisChunk): Promise<DataView> {
+  const buffer = await fs.readFile(path.join(destChunkDirPath, chunk.fileName));
+  return new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
 }
 
-function getDestSeriesSizeInBytes(metadata: SeriesCopyMetadata): number {
+function getDestSeriesSizeInBytes(metadata: SeriesCopyMetadata, destRange: DestRange): number {
   const intervalByteCount = getSubintervalSizeInBytes(metadata.destCoeffCount, metadata.propCount);
-  const intervalCount = Math.floor(destDuration / metadata.subintervalDuration);
+  const intervalCount = Math.floor(destRange.durationDays / metadata.subintervalDuration);
   return intervalByteCount * intervalCount;
 }
 
@@ -176,11 +416,11 @@ function copyBlock(
   section: SeriesSection,
   srcDataView: DataView,
   destDataView: DataView,
+  srcBlockIndex: number,
   blockIndex: number
 ) {
   const subintervalCount = srcDaysPerBlock / metadata.subintervalDuration;
 
-  const srcBlockIndex = readFirstBlock.index + blockIndex;
   const srcBlockStartOffset = headerByteCount + srcBlockIndex * blockByteCount;
   const srcBodyStartOffset = srcBlockStartOffset + (metadata.blockStartOffset - 1) * 8;
   const srcIntervalSize = getSubintervalSizeInBytes(metadata.srcCoeffCount, metadata.propCount);
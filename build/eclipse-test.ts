@@ -0,0 +1,148 @@
+import path from "path";
+import fs from "fs/promises";
+import { parseArgs } from "util";
+import { maxByProperty } from "../src/common/iteration";
+import { Ephemeris } from "../src/ephemeris";
+import { createEphemerisFromFile } from "../src/ephemeris-file";
+import { getLunarEclipseTypeName } from "../src/lunar-eclipses";
+import { computeLunarEvents, LunarEvents } from "../src/lunar-events";
+import { getSolarEclipseTypeName } from "../src/solar-eclipses";
+import { LunarEclipseType, SolarEclipseType } from "../src/state-types";
+
+const ephemerisPath = path.join(process.cwd(), "src/resources/ephemeris.dat");
+
+const usage = `
+Usage: tsx ./build/eclipse-test.ts [options]
+
+Checks solar and lunar eclipses calculated from the ephemeris against NASA's Five Millennium Canon.
+
+Options:
+  --help      Show this message
+`;
+
+// https://eclipse.gsfc.nasa.gov/SEcat5/SE2001-2100.html
+const knownSolarEclipses: KnownSolarEclipse[] = [
+  { date: "2022-04-30", eclipseType: SolarEclipseType.Partial, gamma: -1.1901, magnitude: 0.6396 },
+  { date: "2022-10-25", eclipseType: SolarEclipseType.Partial, gamma: 1.0701, magnitude: 0.8619 },
+  { date: "2023-10-14", eclipseType: SolarEclipseType.Annular, gamma: 0.3753, magnitude: 0.952 },
+  { date: "2024-04-08", eclipseType: SolarEclipseType.Total, gamma: 0.3431, magnitude: 1.0566 },
+  { date: "2025-03-29", eclipseType: SolarEclipseType.Partial, gamma: 1.0405, magnitude: 0.9376 },
+  { date: "2025-09-21", eclipseType: SolarEclipseType.Partial, gamma: -1.0651, magnitude: 0.855 },
+];
+
+// https://eclipse.gsfc.nasa.gov/LEcat5/LE2001-2100.html
+const knownLunarEclipses: KnownLunarEclipse[] = [
+  { date: "2025-03-14", eclipseType: LunarEclipseType.Total, umbral: 1.1784, penumbral: 2.2595, totalityMinutes: 65 },
+  { date: "2025-09-07", eclipseType: LunarEclipseType.Total, umbral: 1.3619, penumbral: 2.3459, totalityMinutes: 82 },
+  { date: "2026-08-28", eclipseType: LunarEclipseType.Partial, umbral: 0.9299, penumbral: 1.9645, totalityMinutes: 0 },
+];
+
+// Wide enough to include the new or full moon.
+const eclipseSearchRangeSeconds = 60 * 60 * 24 * 8;
+
+// The Earth is treated as a sphere, which makes partial solar eclipse magnitudes slightly high.
+const maxEclipseGammaError = 0.005;
+const maxEclipseMagnitudeError = 0.01;
+// The catalogue rounds to the minute.
+const maxTotalityErrorMinutes = 2;
+
+type KnownSolarEclipse = {
+  date: string;
+  eclipseType: SolarEclipseType;
+  gamma: number;
+  magnitude: number;
+};
+
+type KnownLunarEclipse = {
+  date: string;
+  eclipseType: LunarEclipseType;
+  umbral: number;
+  penumbral: number;
+  totalityMinutes: number;
+};
+
+(async function () {
+  const { values } = parseArgs({
+    options: {
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+
+  const ephemeris = await loadEphemeris();
+  for (const eclipse of knownSolarEclipses) {
+    testSolarEclipse(ephemeris, eclipse);
+    console.log(`Pass: ${getSolarEclipseTypeName(eclipse.eclipseType)} solar eclipse ${eclipse.date}`);
+  }
+
+  for (const eclipse of knownLunarEclipses) {
+    testLunarEclipse(ephemeris, eclipse);
+    console.log(`Pass: ${getLunarEclipseTypeName(eclipse.eclipseType)} lunar eclipse ${eclipse.date}`);
+  }
+})();
+
+async function loadEphemeris(): Promise<Ephemeris> {
+  const buffer = await fs.readFile(ephemerisPath);
+  const dataView = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  return createEphemerisFromFile(dataView);
+}
+
+function testSolarEclipse(ephemeris: Ephemeris, known: KnownSolarEclipse) {
+  const date = new Date(known.date);
+  const { solarEclipses } = getEventsAround(ephemeris, date);
+  if (solarEclipses.length === 0) {
+    throw new Error(`Fail:\nSolar eclipse: ${known.date}\nNo eclipse found`);
+  }
+
+  const eclipse = maxByProperty(solarEclipses, (e) => -Math.abs(e.date.getTime() - date.getTime())).item;
+  if (eclipse.eclipseType !== known.eclipseType) {
+    const typeName = getSolarEclipseTypeName(eclipse.eclipseType);
+    const expectedTypeName = getSolarEclipseTypeName(known.eclipseType);
+    throw new Error(`Fail:\nSolar eclipse: ${known.date}\nType: ${typeName}\nExpected: ${expectedTypeName}`);
+  }
+
+  assertWithin("Gamma", eclipse.gamma - known.gamma, maxEclipseGammaError);
+  assertWithin("Magnitude", eclipse.magnitude - known.magnitude, maxEclipseMagnitudeError);
+
+  function assertWithin(name: string, error: number, maxError: number) {
+    if (Math.abs(error) > maxError || isNaN(error)) {
+      throw new Error(`Fail:\nSolar eclipse: ${known.date}\n${name}\nError: ${error}\nMax error: ${maxError}`);
+    }
+  }
+}
+
+function testLunarEclipse(ephemeris: Ephemeris, known: KnownLunarEclipse) {
+  const date = new Date(known.date);
+  const { lunarEclipses } = getEventsAround(ephemeris, date);
+  if (lunarEclipses.length === 0) {
+    throw new Error(`Fail:\nLunar eclipse: ${known.date}\nNo eclipse found`);
+  }
+
+  const eclipse = maxByProperty(lunarEclipses, (e) => -Math.abs(e.date.getTime() - date.getTime())).item;
+  if (eclipse.eclipseType !== known.eclipseType) {
+    const typeName = getLunarEclipseTypeName(eclipse.eclipseType);
+    const expectedTypeName = getLunarEclipseTypeName(known.eclipseType);
+    throw new Error(`Fail:\nLunar eclipse: ${known.date}\nType: ${typeName}\nExpected: ${expectedTypeName}`);
+  }
+
+  assertWithin("Umbral magnitude", eclipse.magnitude.umbral - known.umbral, maxEclipseMagnitudeError);
+  assertWithin("Penumbral magnitude", eclipse.magnitude.penumbral - known.penumbral, maxEclipseMagnitudeError);
+  assertWithin("Totality (min)", eclipse.totalityMinutes - known.totalityMinutes, maxTotalityErrorMinutes);
+
+  function assertWithin(name: string, error: number, maxError: number) {
+    if (Math.abs(error) > maxError || isNaN(error)) {
+      throw new Error(`Fail:\nLunar eclipse: ${known.date}\n${name}\nError: ${error}\nMax error: ${maxError}`);
+    }
+  }
+}
+
+function getEventsAround(ephemeris: Ephemeris, date: Date): LunarEvents {
+  return computeLunarEvents(ephemeris, {
+    startDate: new Date(date.getTime() - eclipseSearchRangeSeconds * 1000),
+    endDate: new Date(date.getTime() + eclipseSearchRangeSeconds * 1000),
+  });
+}
@@ -0,0 +1,121 @@
+import { DestRange, SeriesCopyMetadata } from "./ephem-gen-types";
+import { SeriesType } from "../src/ephemeris";
+import { JPLDE } from "./jplde";
+
+// Points at which to compare the truncated and full polynomials within each interval.
+const samplesPerInterval = 32;
+
+export type TruncationAccuracy = {
+  coeffCount: number;
+  // Distance between the positions from the truncated and full series.
+  maxErrorKm: number;
+  rmsErrorKm: number;
+  sizeInBytes: number;
+};
+
+/**
+ * Gets the position error from keeping only the first coefficients of each property of the series, for each
+ * possible number of coefficients, over the whole range to be copied.
+ */
+export function getTruncationAccuracies(
+  jplde: JPLDE,
+  metadata: SeriesCopyMetadata,
+  destRange: DestRange
+): TruncationAccuracy[] {
+  const { blockSize, jdStep } = jplde.getHeader();
+  const coeffCount = metadata.srcCoeffCount;
+  const subintervalCount = Math.round(jdStep / metadata.subintervalDuration);
+  const intervalSize = coeffCount * metadata.propCount * 8;
+
+  const maxErrors = new Array<number>(coeffCount + 1).fill(0);
+  const sumSquaredErrors = new Array<number>(coeffCount + 1).fill(0);
+  const squaredErrors = new Array<number>(coeffCount + 1);
+  const chebyshevValues = new Array<number>(coeffCount);
+  let sampleCount = 0;
+
+  for (let blockIndex = 0; blockIndex < destRange.blockCount; blockIndex++) {
+    // The first two blocks hold the header and constants.
+    const blockStartOffset = (destRange.firstBlock.index + blockIndex + 2) * blockSize;
+    const bodyStartOffset = blockStartOffset + (metadata.blockStartOffset - 1) * 8;
+
+    for (let intervalIndex = 0; intervalIndex < subintervalCount; intervalIndex++) {
+      const intervalStartOffset = bodyStartOffset + intervalIndex * intervalSize;
+      const coeffs = readFloat64s(jplde.data, intervalStartOffset, coeffCount * metadata.propCount);
+
+      for (let sampleIndex = 0; sampleIndex < samplesPerInterval; sampleIndex++) {
+        const time = ((sampleIndex + 0.5) / samplesPerInterval) * 2 - 1;
+        setChebyshevValues(chebyshevValues, time);
+        squaredErrors.fill(0);
+
+        for (let propIndex = 0; propIndex < metadata.propCount; propIndex++) {
+          // The error from keeping n coefficients is the sum of the terms from n onwards.
+          let error = 0;
+          for (let n = coeffCount - 1; n >= 0; n--) {
+            error += coeffs[propIndex * coeffCount + n] * chebyshevValues[n];
+            squaredErrors[n] += error * error;
+          }
+        }
+
+        for (let n = 1; n < coeffCount; n++) {
+          maxErrors[n] = Math.max(maxErrors[n], Math.sqrt(squaredErrors[n]));
+          sumSquaredErrors[n] += squaredErrors[n];
+        }
+
+        sampleCount++;
+      }
+    }
+  }
+
+  const intervalCount = destRange.blockCount * subintervalCount;
+  return Array.from({ length: coeffCount }, (_, i) => {
+    const keptCount = i + 1;
+    return {
+      coeffCount: keptCount,
+      maxErrorKm: maxErrors[keptCount],
+      rmsErrorKm: Math.sqrt(sumSquaredErrors[keptCount] / sampleCount),
+      sizeInBytes: intervalCount * keptCount * metadata.propCount * 8,
+    };
+  });
+}
+
+/**
+ * Gets the smallest number of coefficients whose maximum error is within the target.
+ */
+export function getSmallestCoeffCount(accuracies: TruncationAccuracy[], targetErrorKm: number): number {
+  const accuracy = accuracies.find((a) => a.maxErrorKm <= targetErrorKm);
+  return accuracy ? accuracy.coeffCount : accuracies[accuracies.length - 1].coeffCount;
+}
+
+export function formatAccuracyReport(metadata: SeriesCopyMetadata, accuracies: TruncationAccuracy[]): string {
+  const seriesName = SeriesType[metadata.seriesType];
+  const sampling = `${samplesPerInterval} samples per ${metadata.subintervalDuration} day interval`;
+  const header = `${seriesName}: error vs. all ${metadata.srcCoeffCount} coefficients (${sampling})`;
+  const columns = ["Coeffs", "Max km", "RMS km", "Bytes"];
+  const rows = accuracies.map((a) => [
+    `${a.coeffCount === metadata.destCoeffCount ? "*" : ""}${a.coeffCount}`,
+    a.maxErrorKm.toExponential(2),
+    a.rmsErrorKm.toExponential(2),
+    a.sizeInBytes.toString(),
+  ]);
+
+  const widths = columns.map((c, i) => Math.max(c.length, ...rows.map((row) => row[i].length)));
+  const lines = [columns, ...rows].map((row) => row.map((value, i) => value.padStart(widths[i])).join("  "));
+  return [header, ...lines].join("\n");
+}
+
+function setChebyshevValues(values: number[], time: number) {
+  values[0] = 1;
+  values[1] = time;
+  for (let n = 2; n < values.length; n++) {
+    values[n] = 2 * time * values[n - 1] - values[n - 2];
+  }
+}
+
+function readFloat64s(dataView: DataView, startOffset: number, count: number) {
+  const results = new Array<number>(count);
+  for (let i = 0; i < count; i++) {
+    results[i] = dataView.getFloat64(startOffset + i * 8, true);
+  }
+
+  return results;
+}
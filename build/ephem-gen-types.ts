@@ -21,3 +21,9 @@ export type SourceBlock = {
   index: number;
   startJulianDate: number;
 };
+
+export type DestRange = {
+  firstBlock: SourceBlock;
+  blockCount: number;
+  durationDays: number;
+};
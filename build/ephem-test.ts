@@ -1,4 +1,4 @@
-import { Ephemeris } from "../src/ephemeris";
+import { Ephemeris, SeriesType } from "../src/ephemeris";
 import { asEphemerisTest, EphemerisTest, ephemerisTestItems } from "./jplde-test";
 
 // Test indices:
@@ -8,36 +8,53 @@ const embToEarthIndex = 3;
 const ssbToMoonIndex = 10;
 const ssbToSunIndex = 11;
 // const nutationIndex = 14;
-const testableSeriesIndices = [ssbIndex1, ssbIndex2, embToEarthIndex, ssbToMoonIndex, ssbToSunIndex /*nutationIndex*/];
 
 // From header.440
 const au = 0.149597870699999988e9;
 
+// The series needed to calculate the values of each test index.
+const requiredSeriesTypes = new Map<number, SeriesType[]>([
+  [ssbIndex1, []],
+  [ssbIndex2, []],
+  [embToEarthIndex, [SeriesType.SsbToEmb, SeriesType.EarthToMoon]],
+  [ssbToMoonIndex, [SeriesType.SsbToEmb, SeriesType.EarthToMoon]],
+  [ssbToSunIndex, [SeriesType.SsbToSun]],
+  // [nutationIndex, [SeriesType.Nutation]],
+]);
+
 export function testDestEphemeris(ephem: Ephemeris) {
-  ephemerisTestItems
-    .map(asEphemerisTest)
-    .filter(isTestable)
-    .forEach((test) => {
-      const t1 = getValue(ephem, test.target, test.jd, test.x);
-      const t2 = getValue(ephem, test.center, test.jd, test.x);
-
-      // const isNutation = test.target === nutationIndex;
-      // const v = isNutation ? t1 - t2 : (t1 - t2) / au;
-      const v = (t1 - t2) / au;
-      const error = Math.abs(v - test.expected);
-
-      const involvesSun = test.target === ssbToSunIndex || test.center === ssbToSunIndex;
-      const maxError = involvesSun ? 1.0e-9 : 1.0e-11;
-
-      if (error > maxError || isNaN(error)) {
-        throw new Error(
-          `Fail:\nTarget: ${test.target}\nCenter: ${test.center}\nX: ${test.x}\nExpected: ${test.expected}\nActual: ${v}\nDiff=${error}`
-        );
-      }
-    });
+  const tests = ephemerisTestItems.map(asEphemerisTest).filter(isTestable);
+  if (tests.length === 0) {
+    console.warn("No test values are within the range and series of the ephemeris.");
+  }
+
+  tests.forEach((test) => {
+    const t1 = getValue(ephem, test.target, test.jd, test.x);
+    const t2 = getValue(ephem, test.center, test.jd, test.x);
+
+    // const isNutation = test.target === nutationIndex;
+    // const v = isNutation ? t1 - t2 : (t1 - t2) / au;
+    const v = (t1 - t2) / au;
+    const error = Math.abs(v - test.expected);
+
+    const involvesSun = test.target === ssbToSunIndex || test.center === ssbToSunIndex;
+    const maxError = involvesSun ? 1.0e-9 : 1.0e-11;
+
+    if (error > maxError || isNaN(error)) {
+      throw new Error(
+        `Fail:\nTarget: ${test.target}\nCenter: ${test.center}\nX: ${test.x}\nExpected: ${test.expected}\nActual: ${v}\nDiff=${error}`
+      );
+    }
+  });
 
   function isTestable(test: EphemerisTest) {
-    return testableSeriesIndices.includes(test.center) && testableSeriesIndices.includes(test.target);
+    const isInRange = test.jd >= ephem.getStartJulianDate() && test.jd < ephem.getEndJulianDate();
+    return isInRange && [test.center, test.target].every(hasRequiredSeries);
+  }
+
+  function hasRequiredSeries(seriesIndex: number) {
+    const seriesTypes = requiredSeriesTypes.get(seriesIndex);
+    return seriesTypes !== undefined && seriesTypes.every((seriesType) => ephem.hasSeries(seriesType));
   }
 }
 
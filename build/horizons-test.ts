@@ -0,0 +1,260 @@
+import path from "path";
+import fs from "fs/promises";
+import { parseArgs } from "util";
+import { getGeodeticCoordinates, getGeodeticPosition } from "../src/calculations";
+import { maxByProperty } from "../src/common/iteration";
+import { degToRad, radToDeg } from "../src/common/math";
+import type { Vector2, Vector3 } from "../src/common/numeric-types";
+import { getMagnitude, subtractVectors } from "../src/common/vectors";
+import { earthEquatorialRadius, earthPolarRadius, highlightClosestKmCount } from "../src/constants";
+import { Ephemeris } from "../src/ephemeris";
+import { createEphemerisFromFile } from "../src/ephemeris-file";
+import {
+  getGeocentricVectorParams,
+  getSiteVectorParams,
+  HorizonsParams,
+  HorizonsResultRecord,
+  parseResponse,
+} from "../src/horizons";
+import {
+  defaultHttpHorizonsClientOptions,
+  getHorizonsRequestKey,
+  HorizonsClient,
+  HttpHorizonsClient,
+  LocalHorizonsClient,
+} from "../src/horizons-client";
+import { computeLunarEvents } from "../src/lunar-events";
+import { getProximityLine } from "../src/proximity-line";
+import type { Perigee } from "../src/state-types";
+import { getAstronomicalTime } from "../src/time";
+import { getTopocentricMoonPosition, ObserverLocation } from "../src/topocentric";
+
+const ephemerisPath = path.join(process.cwd(), "src/resources/ephemeris.dat");
+const fixturesPath = path.join(process.cwd(), "build/fixtures/horizons");
+
+const usage = `
+Usage: tsx ./build/horizons-test.ts [options]
+
+Checks perigees and closest points calculated from the ephemeris against responses from JPL Horizons
+stored in build/fixtures/horizons.
+
+Options:
+  --capture   Fetch the responses from Horizons and overwrite the fixtures (requires network access)
+  --help      Show this message
+`;
+
+// Perigees across the range of the ephemeris, as calculated when the fixtures were captured.
+// Each one is looked up again, so these only need to be within a day or so of the perigee.
+const fixturePerigeeDates = [
+  "2000-01-19T22:47:34Z",
+  "2024-04-07T17:51:23Z",
+  "2025-11-05T22:27:21Z",
+  "2052-06-25T08:23:26Z",
+  "2099-06-23T09:34:27Z",
+].map((d) => new Date(d));
+
+// Wide enough for the perigee lookup to include a full and new moon.
+const perigeeSearchRangeSeconds = 60 * 60 * 24 * 16;
+
+// As in the CLI and earth view.
+const closestPointTimeRangeSeconds = 60 * 60 * 24;
+const closestPointStepSeconds = 60;
+
+// The geocentric samples are about 3 minutes apart, and the site samples about 1 minute apart.
+const geocentricTimeWindowSeconds = 60 * 60 * 6;
+const siteTimeWindowSeconds = 60 * 60 * 2;
+const sampleCount = 128;
+
+// The range is nearly flat around a minimum, so its time is less certain than its value.
+const maxPerigeeTimeErrorSeconds = 60;
+const maxPerigeeDistanceErrorKm = 1;
+// The sub-lunar point moves across the surface at around 0.4 km/s, so this is about 30 seconds.
+const maxSubLunarErrorKm = 15;
+const maxSiteRangeErrorKm = 1;
+
+type HorizonsFixture = {
+  perigeeDate: string;
+  // The closest sea-level point to the Moon around the perigee, and when the Moon is above it.
+  closestPointDate: string;
+  site: ObserverLocation;
+  // Raw responses from the Horizons API, keyed by request.
+  responses: { [requestKey: string]: unknown };
+};
+
+(async function () {
+  const { values } = parseArgs({
+    options: {
+      capture: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+
+  const ephemeris = await loadEphemeris();
+  if (values.capture) {
+    await fs.mkdir(fixturesPath, { recursive: true });
+    for (const date of fixturePerigeeDates) {
+      const fixture = await captureFixture(ephemeris, date);
+      await fs.writeFile(getFixturePath(date), JSON.stringify(fixture, null, 2));
+      console.log(`Captured ${getFixturePath(date)}`);
+    }
+
+    return;
+  }
+
+  for (const date of fixturePerigeeDates) {
+    const fixture = await loadFixture(date);
+    await testFixture(ephemeris, fixture);
+    console.log(`Pass: ${fixture.perigeeDate}`);
+  }
+})();
+
+async function loadEphemeris(): Promise<Ephemeris> {
+  const buffer = await fs.readFile(ephemerisPath);
+  const dataView = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  return createEphemerisFromFile(dataView);
+}
+
+async function loadFixture(date: Date): Promise<HorizonsFixture> {
+  const fixturePath = getFixturePath(date);
+  try {
+    const text = await fs.readFile(fixturePath, { encoding: "utf8" });
+    return JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Unable to read fixture ${fixturePath}. Run with --capture to record it.\n${e}`);
+  }
+}
+
+function getFixturePath(date: Date): string {
+  return path.join(fixturesPath, `${date.toISOString().substring(0, 10)}.json`);
+}
+
+async function captureFixture(ephemeris: Ephemeris, date: Date): Promise<HorizonsFixture> {
+  // Browsers need a CORS proxy, but Node doesn't.
+  const client = new HttpHorizonsClient({ ...defaultHttpHorizonsClientOptions, proxyUrl: null });
+
+  const perigee = getNearestPerigee(ephemeris, date);
+  const closestPoint = getClosestPoint(ephemeris, perigee);
+  const fixture: HorizonsFixture = {
+    perigeeDate: perigee.date.toISOString(),
+    closestPointDate: closestPoint.date.toISOString(),
+    site: {
+      longitudeDegrees: radToDeg(closestPoint.coordinates[0]),
+      latitudeDegrees: radToDeg(closestPoint.coordinates[1]),
+      altitudeInM: 0,
+    },
+    responses: {},
+  };
+
+  for (const params of [getGeocentricParams(fixture), getSiteParams(fixture)]) {
+    fixture.responses[getHorizonsRequestKey(params)] = await client.getResponse(params);
+  }
+
+  return fixture;
+}
+
+function getGeocentricParams(fixture: HorizonsFixture): URLSearchParams {
+  return getGeocentricVectorParams(new Date(fixture.perigeeDate), geocentricTimeWindowSeconds, sampleCount);
+}
+
+function getSiteParams(fixture: HorizonsFixture): URLSearchParams {
+  const siteParams: HorizonsParams = {
+    date: new Date(fixture.closestPointDate),
+    timeWindowSeconds: siteTimeWindowSeconds,
+    sampleCount,
+    ...fixture.site,
+  };
+
+  return getSiteVectorParams(siteParams);
+}
+
+async function testFixture(ephemeris: Ephemeris, fixture: HorizonsFixture) {
+  const client: HorizonsClient = new LocalHorizonsClient(fixture.responses);
+  const perigee = getNearestPerigee(ephemeris, new Date(fixture.perigeeDate));
+  const horizonsPerigee = getInterpolatedMinimum(parseResponse(await client.getResponse(getGeocentricParams(fixture))));
+  assertWithin(
+    "Perigee time (s)",
+    (perigee.date.getTime() - horizonsPerigee.date.getTime()) / 1000,
+    maxPerigeeTimeErrorSeconds
+  );
+  assertWithin("Perigee distance (km)", perigee.moonDistance - horizonsPerigee.range, maxPerigeeDistanceErrorKm);
+
+  // When the Moon is closest to the site, the site should be at the sub-lunar point.
+  const { site } = fixture;
+  const horizonsClosest = getInterpolatedMinimum(parseResponse(await client.getResponse(getSiteParams(fixture))));
+  const position = getTopocentricMoonPosition(ephemeris, site, getAstronomicalTime(horizonsClosest.date));
+  const sitePosition = getSeaLevelPosition([degToRad(site.longitudeDegrees), degToRad(site.latitudeDegrees)]);
+  const subLunarPosition = getSeaLevelPosition(position.subLunarCoordinates);
+  assertWithin(
+    "Sub-lunar point (km)",
+    getMagnitude(subtractVectors(subLunarPosition, sitePosition)),
+    maxSubLunarErrorKm
+  );
+  assertWithin("Site range (km)", position.distance - horizonsClosest.range, maxSiteRangeErrorKm);
+
+  function assertWithin(name: string, error: number, maxError: number) {
+    if (Math.abs(error) > maxError || isNaN(error)) {
+      throw new Error(`Fail:\nPerigee: ${fixture.perigeeDate}\n${name}\nError: ${error}\nMax error: ${maxError}`);
+    }
+  }
+}
+
+function getNearestPerigee(ephemeris: Ephemeris, date: Date): Perigee {
+  const { perigees } = computeLunarEvents(ephemeris, {
+    startDate: new Date(date.getTime() - perigeeSearchRangeSeconds * 1000),
+    endDate: new Date(date.getTime() + perigeeSearchRangeSeconds * 1000),
+  });
+
+  if (perigees.length === 0) {
+    throw new Error(`No perigee found near ${date.toISOString()}`);
+  }
+
+  return maxByProperty(perigees, (p) => -Math.abs(p.date.getTime() - date.getTime())).item;
+}
+
+function getClosestPoint(ephemeris: Ephemeris, perigee: Perigee): { date: Date; coordinates: Vector2 } {
+  const proximityLine = getProximityLine(
+    ephemeris,
+    getAstronomicalTime(perigee.date),
+    highlightClosestKmCount,
+    closestPointTimeRangeSeconds,
+    closestPointStepSeconds
+  );
+
+  const closestPoint = proximityLine.points[proximityLine.minDistanceIndex];
+  return {
+    date: closestPoint.time.date,
+    coordinates: getGeodeticCoordinates(closestPoint.position, earthEquatorialRadius, earthPolarRadius),
+  };
+}
+
+function getSeaLevelPosition(coordinates: Vector2): Vector3 {
+  return getGeodeticPosition(coordinates, 0, earthEquatorialRadius, earthPolarRadius);
+}
+
+/**
+ * Finds the minimum range by interpolating the time at which the range rate changes sign.
+ * The range rate is close to linear over a few minutes, so the range at that time is
+ * the range of the preceding record plus the area under the range rate.
+ */
+function getInterpolatedMinimum(records: HorizonsResultRecord[]): HorizonsResultRecord {
+  for (let i = 1; i < records.length; i++) {
+    const prev = records[i - 1];
+    const next = records[i];
+    if (prev.rangeRate < 0 && next.rangeRate >= 0) {
+      const stepSeconds = (next.date.getTime() - prev.date.getTime()) / 1000;
+      const secondsAfterPrev = (stepSeconds * -prev.rangeRate) / (next.rangeRate - prev.rangeRate);
+      return {
+        date: new Date(prev.date.getTime() + secondsAfterPrev * 1000),
+        range: prev.range + (prev.rangeRate * secondsAfterPrev) / 2,
+        rangeRate: 0,
+      };
+    }
+  }
+
+  throw new Error(`No minimum range found between ${records[0]?.date.toISOString()} and the end of the records`);
+}
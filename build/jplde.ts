@@ -172,7 +172,7 @@ export type JPLHeaderData = {
   //au: number;
   emrat: number;
   coeffPtr: [number, number, number][];
-  //version: number;
+  version: number;
   blockSize: number;
   //constants: number[];
 };
@@ -272,6 +272,7 @@ class JPLDEHeader {
       jdStep,
       emrat,
       coeffPtr,
+      version,
       blockSize,
     };
   }
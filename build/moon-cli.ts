@@ -0,0 +1,384 @@
+import path from "path";
+import fs from "fs/promises";
+import { parseArgs } from "util";
+import { getGeodeticCoordinates } from "../src/calculations";
+import { radToDeg } from "../src/common/math";
+import { earthEquatorialRadius, earthPolarRadius, highlightClosestKmCount } from "../src/constants";
+import { Ephemeris } from "../src/ephemeris";
+import { createEphemerisFromFile } from "../src/ephemeris-file";
+import { createJplDeEphemeris } from "../src/jplde-file";
+import { computeLunarEvents, getSuperPerigees, LunarEvents } from "../src/lunar-events";
+import { getProximityLine } from "../src/proximity-line";
+import { getLunarEclipseTypeName } from "../src/lunar-eclipses";
+import { getSolarEclipseTypeName } from "../src/solar-eclipses";
+import type { Apogee, LunarEclipse, Perigee, SolarEclipse, Syzygy } from "../src/state-types";
+import { getAstronomicalTime, tdbJulianDaysToDate } from "../src/time";
+import { getClosestVisiblePosition, getTopocentricMoonPositions, ObserverLocation } from "../src/topocentric";
+
+const ephemerisPath = path.join(process.cwd(), "src/resources/ephemeris.dat");
+
+const usage = `
+Usage: tsx ./build/moon-cli.ts <command> [options]
+
+Commands:
+  perigees          All perigees in the date range
+  super-perigees    The closest perigee of each perigee cycle
+  apogees           All apogees in the date range
+  micro-moons       Apogees within 24 hours of a Micro Moon or Micro New Moon
+  full-moons        Full moon times
+  new-moons         New moon times
+  solar-eclipses    Solar eclipses (type, gamma and magnitude at greatest eclipse)
+  lunar-eclipses    Lunar eclipses (type, contact times, greatest magnitude and duration of totality)
+  closest-points    The closest sea-level point on Earth to the Moon around each perigee
+  observer          The closest approach of the Moon to an observer each day, while above the horizon
+
+Options:
+  --start <date>    Start of the date range (default: today)
+  --end <date>      End of the date range (default: one year after start)
+  --format <format> table, json or csv (default: table)
+  --super           Only include super-perigees (closest-points only)
+  --lon <degrees>   Observer longitude (observer only; use --lon=-12.3 for negative values)
+  --lat <degrees>   Observer latitude (observer only)
+  --elev <meters>   Observer elevation above the ellipsoid (observer only, default: 0)
+  --step <minutes>  Sampling interval (observer only, default: 5)
+  --ephemeris <path>
+                    A JPL DE4xx binary file (e.g. linux_m13000p17000.441) to use instead of the built-in
+                    2000-2100 subset
+  --help            Show this message
+`;
+
+// The time window around each perigee to search for the closest point on the surface (as in the earth view).
+const closestPointTimeRangeSeconds = 60 * 60 * 24;
+const closestPointStepSeconds = 60;
+
+// The lunar events are found from daily samples, and peak detection needs at least four of them.
+const minEventRangeDays = 4;
+const millisecondsPerDay = 1000 * 60 * 60 * 24;
+
+type CommandOptions = {
+  superOnly: boolean;
+  observer: ObserverLocation | null;
+  stepSeconds: number;
+};
+
+type OutputFormat = "table" | "json" | "csv";
+
+// Null for values that are unknown, e.g. hours from a full moon outside the date range.
+type OutputValue = string | number | boolean | null;
+
+type OutputRow = {
+  [column: string]: OutputValue;
+};
+
+type CommandFunction = (ephemeris: Ephemeris, startDate: Date, endDate: Date, options: CommandOptions) => OutputRow[];
+
+const commands: { [command: string]: CommandFunction } = {
+  perigees: (ephemeris, startDate, endDate) => getPerigees(ephemeris, startDate, endDate).map(perigeeToRow),
+  "super-perigees": (ephemeris, startDate, endDate) =>
+    getSuperPerigees(getPerigees(ephemeris, startDate, endDate)).map(perigeeToRow),
+  apogees: (ephemeris, startDate, endDate) => getEvents(ephemeris, startDate, endDate).apogees.map(apogeeToRow),
+  "micro-moons": (ephemeris, startDate, endDate) =>
+    getEvents(ephemeris, startDate, endDate)
+      .apogees.filter((a) => a.isMicroMoon || a.isMicroNewMoon)
+      .map(apogeeToRow),
+  "full-moons": (ephemeris, startDate, endDate) => getEvents(ephemeris, startDate, endDate).fullMoons.map(syzygyToRow),
+  "new-moons": (ephemeris, startDate, endDate) => getEvents(ephemeris, startDate, endDate).newMoons.map(syzygyToRow),
+  "solar-eclipses": (ephemeris, startDate, endDate) =>
+    getEvents(ephemeris, startDate, endDate).solarEclipses.map(solarEclipseToRow),
+  "lunar-eclipses": (ephemeris, startDate, endDate) =>
+    getEvents(ephemeris, startDate, endDate).lunarEclipses.map(lunarEclipseToRow),
+  "closest-points": (ephemeris, startDate, endDate, options) => {
+    const perigees = getPerigees(ephemeris, startDate, endDate);
+    const selectedPerigees = options.superOnly ? getSuperPerigees(perigees) : perigees;
+    return selectedPerigees.map((perigee) => getClosestPointRow(ephemeris, perigee));
+  },
+  observer: (ephemeris, startDate, endDate, options) => {
+    if (options.observer === null) {
+      throw new Error("The observer command requires --lon and --lat.");
+    }
+
+    return getObserverRows(ephemeris, options.observer, startDate, endDate, options.stepSeconds);
+  },
+};
+
+(async function () {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      start: { type: "string" },
+      end: { type: "string" },
+      format: { type: "string", default: "table" },
+      super: { type: "boolean", default: false },
+      lon: { type: "string" },
+      lat: { type: "string" },
+      elev: { type: "string", default: "0" },
+      step: { type: "string", default: "5" },
+      ephemeris: { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  const [commandName] = positionals;
+  if (values.help || commandName === undefined) {
+    console.log(usage);
+    return;
+  }
+
+  const command = commands[commandName];
+  if (command === undefined) {
+    throw new Error(`Unknown command: ${commandName}\n${usage}`);
+  }
+
+  const format = parseFormat(values.format!);
+  const startDate = values.start !== undefined ? parseDate(values.start) : getToday();
+  const endDate = values.end !== undefined ? parseDate(values.end) : addYears(startDate, 1);
+  if (startDate >= endDate) {
+    throw new Error("Start date must be before end date.");
+  }
+
+  const observer =
+    values.lon !== undefined && values.lat !== undefined
+      ? {
+          longitudeDegrees: parseNumber(values.lon, "longitude"),
+          latitudeDegrees: parseNumber(values.lat, "latitude"),
+          altitudeInM: parseNumber(values.elev!, "elevation"),
+        }
+      : null;
+
+  const stepSeconds = parseNumber(values.step!, "step") * 60;
+  if (stepSeconds <= 0) {
+    throw new Error("Step must be positive.");
+  }
+
+  const ephemeris = await loadEphemeris(values.ephemeris);
+  const ephemerisStart = tdbJulianDaysToDate(ephemeris.getStartJulianDate());
+  const ephemerisEnd = tdbJulianDaysToDate(ephemeris.getEndJulianDate());
+  if (startDate < ephemerisStart || endDate > ephemerisEnd) {
+    throw new Error(
+      `Date range must be within ${ephemerisStart.toISOString()} and ${ephemerisEnd.toISOString()} (ephemeris coverage).`
+    );
+  }
+
+  const rows = command(ephemeris, startDate, endDate, { superOnly: values.super!, observer, stepSeconds });
+  console.log(formatRows(rows, format));
+})().catch((err) => {
+  // Report invalid arguments without a stack trace.
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
+
+async function loadEphemeris(jplDePath: string | undefined): Promise<Ephemeris> {
+  const buffer = await fs.readFile(jplDePath ?? ephemerisPath);
+  const dataView = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  return jplDePath !== undefined ? createJplDeEphemeris(dataView) : createEphemerisFromFile(dataView);
+}
+
+function getEvents(ephemeris: Ephemeris, startDate: Date, endDate: Date): LunarEvents {
+  if (endDate.getTime() - startDate.getTime() < minEventRangeDays * millisecondsPerDay) {
+    throw new Error(`Date range must be at least ${minEventRangeDays} days.\n${usage}`);
+  }
+
+  return computeLunarEvents(ephemeris, { startDate, endDate });
+}
+
+function getPerigees(ephemeris: Ephemeris, startDate: Date, endDate: Date): Perigee[] {
+  return getEvents(ephemeris, startDate, endDate).perigees;
+}
+
+function perigeeToRow(perigee: Perigee): OutputRow {
+  return {
+    date: perigee.date.toISOString(),
+    distanceKm: perigee.moonDistance,
+    hoursFromFullMoon: perigee.hoursFromFullMoon,
+    hoursFromNewMoon: perigee.hoursFromNewMoon,
+    isSuperMoon: perigee.isSuperMoon,
+    isSuperNewMoon: perigee.isSuperNewMoon,
+    umbralMagnitude: perigee.lunarEclipseMagnitude.umbral,
+    penumbralMagnitude: perigee.lunarEclipseMagnitude.penumbral,
+    solarEclipse: perigee.solarEclipse ? getSolarEclipseTypeName(perigee.solarEclipse.eclipseType) : "",
+  };
+}
+
+function apogeeToRow(apogee: Apogee): OutputRow {
+  return {
+    date: apogee.date.toISOString(),
+    distanceKm: apogee.moonDistance,
+    hoursFromFullMoon: apogee.hoursFromFullMoon,
+    hoursFromNewMoon: apogee.hoursFromNewMoon,
+    isMicroMoon: apogee.isMicroMoon,
+    isMicroNewMoon: apogee.isMicroNewMoon,
+  };
+}
+
+function syzygyToRow(syzygy: Syzygy): OutputRow {
+  return {
+    date: syzygy.date.toISOString(),
+    distanceKm: syzygy.moonDistance,
+  };
+}
+
+function solarEclipseToRow(eclipse: SolarEclipse): OutputRow {
+  return {
+    date: eclipse.date.toISOString(),
+    type: getSolarEclipseTypeName(eclipse.eclipseType),
+    isCentral: eclipse.isCentral,
+    gamma: eclipse.gamma,
+    magnitude: eclipse.magnitude,
+  };
+}
+
+function lunarEclipseToRow(eclipse: LunarEclipse): OutputRow {
+  const { contacts } = eclipse;
+  return {
+    date: eclipse.date.toISOString(),
+    type: getLunarEclipseTypeName(eclipse.eclipseType),
+    p1: contacts.p1.toISOString(),
+    u1: contacts.u1?.toISOString() || "",
+    u2: contacts.u2?.toISOString() || "",
+    u3: contacts.u3?.toISOString() || "",
+    u4: contacts.u4?.toISOString() || "",
+    p4: contacts.p4.toISOString(),
+    umbralMagnitude: eclipse.magnitude.umbral,
+    penumbralMagnitude: eclipse.magnitude.penumbral,
+    totalityMinutes: eclipse.totalityMinutes,
+  };
+}
+
+function getClosestPointRow(ephemeris: Ephemeris, perigee: Perigee): OutputRow {
+  const proximityLine = getProximityLine(
+    ephemeris,
+    getAstronomicalTime(perigee.date),
+    highlightClosestKmCount,
+    closestPointTimeRangeSeconds,
+    closestPointStepSeconds
+  );
+
+  const closestPoint = proximityLine.points[proximityLine.minDistanceIndex];
+  const [longitude, latitude] = getGeodeticCoordinates(closestPoint.position, earthEquatorialRadius, earthPolarRadius);
+
+  return {
+    perigeeDate: perigee.date.toISOString(),
+    date: closestPoint.time.date.toISOString(),
+    longitudeDegrees: radToDeg(longitude),
+    latitudeDegrees: radToDeg(latitude),
+    distanceKm: proximityLine.minDistance,
+  };
+}
+
+function getObserverRows(
+  ephemeris: Ephemeris,
+  observer: ObserverLocation,
+  startDate: Date,
+  endDate: Date,
+  stepSeconds: number
+): OutputRow[] {
+  const positions = getTopocentricMoonPositions(ephemeris, observer, { startDate, endDate }, stepSeconds).filter(
+    (p) => p.time.date < endDate
+  );
+  const positionsByDay = new Map<string, typeof positions>();
+  positions.forEach((p) => {
+    const day = p.time.date.toISOString().substring(0, 10);
+    const dayPositions = positionsByDay.get(day);
+    if (dayPositions === undefined) {
+      positionsByDay.set(day, [p]);
+    } else {
+      dayPositions.push(p);
+    }
+  });
+
+  const rows: OutputRow[] = [];
+  positionsByDay.forEach((dayPositions, day) => {
+    const closest = getClosestVisiblePosition(dayPositions);
+    if (closest !== null) {
+      rows.push({
+        day,
+        date: closest.time.date.toISOString(),
+        distanceKm: closest.distance,
+        altitudeDegrees: radToDeg(closest.altitude),
+        azimuthDegrees: radToDeg(closest.azimuth),
+      });
+    }
+  });
+
+  return rows;
+}
+
+function formatRows(rows: OutputRow[], format: OutputFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(rows, null, 2);
+    case "csv":
+      return formatCsv(rows);
+    case "table":
+      return formatTable(rows);
+  }
+}
+
+function formatCsv(rows: OutputRow[]): string {
+  if (rows.length === 0) {
+    return "";
+  }
+
+  const columns = Object.keys(rows[0]);
+  const lines = [columns.map(escapeCsv), ...rows.map((row) => columns.map((c) => escapeCsv(row[c])))];
+  return lines.map((values) => values.join(",")).join("\n");
+
+  function escapeCsv(value: OutputValue): string {
+    const text = value === null ? "" : value.toString();
+    return /[",\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+  }
+}
+
+function formatTable(rows: OutputRow[]): string {
+  if (rows.length === 0) {
+    return "No results.";
+  }
+
+  const columns = Object.keys(rows[0]);
+  const textRows = [columns, ...rows.map((row) => columns.map((c) => formatTableValue(row[c])))];
+  const widths = columns.map((_c, i) => Math.max(...textRows.map((values) => values[i].length)));
+  const lines = textRows.map((values) => values.map((text, i) => text.padEnd(widths[i])).join("  "));
+  lines.splice(1, 0, widths.map((w) => "-".repeat(w)).join("  "));
+  return lines.join("\n");
+
+  function formatTableValue(value: OutputValue): string {
+    return typeof value === "number" ? value.toFixed(3) : value === null ? "" : value.toString();
+  }
+}
+
+function parseFormat(format: string): OutputFormat {
+  if (format !== "table" && format !== "json" && format !== "csv") {
+    throw new Error(`Unknown format: ${format}`);
+  }
+
+  return format;
+}
+
+function parseNumber(text: string, name: string): number {
+  const value = Number(text);
+  if (text.trim() === "" || Number.isNaN(value)) {
+    throw new Error(`Invalid ${name}: ${text}`);
+  }
+
+  return value;
+}
+
+function parseDate(text: string): Date {
+  const date = new Date(text);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${text}`);
+  }
+
+  return date;
+}
+
+function getToday(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function addYears(date: Date, years: number): Date {
+  const result = new Date(date);
+  result.setUTCFullYear(date.getUTCFullYear() + years);
+  return result;
+}
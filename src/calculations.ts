@@ -1,18 +1,23 @@
+import { seqStep } from "./common/iteration";
 import type { Vector2, Vector3 } from "./common/numeric-types";
+import { compose4, makeTranslation4, transpose4 } from "./common/matrices";
 import { crossProduct3, dotProduct3, getMagnitude, normalize, subtractVectors } from "./common/vectors";
 import {
+  applyTransformMatrix,
   applyTransforms,
   asXRotation,
   asYRotation,
   asZRotation,
   RotationOnAxis,
   TransformSeries,
+  getTransformSeriesMatrix,
   TransformType,
 } from "./common/xform";
 import { earthEquatorialRadius, earthMeanRadius, earthPolarRadius, moonMeanRadius, sunMeanRadius } from "./constants";
 import { Ephemeris } from "./ephemeris";
 import { LatLongPosition } from "./geo-types";
-import { AstronomicalTime } from "./time";
+import { getMoonNodeLongitude, getNutation } from "./nutation";
+import { AstronomicalTime, getAstronomicalTime } from "./time";
 
 export type EarthMoonPositions = {
   moonPosition: Vector3;
@@ -55,8 +60,8 @@ export type EclipticPlane = {
 const radiansPerArcsecond = Math.PI / (180 * 60 * 60);
 
 export function getEarthAndMoonPositions(ephemeris: Ephemeris, time: AstronomicalTime): EarthMoonPositions {
-  const ssbToEmb = ephemeris.getSsbToEmb(time.julianDays);
-  const earthToMoon = ephemeris.getEarthToMoon(time.julianDays);
+  const ssbToEmb = ephemeris.getSsbToEmb(time.tdb.julianDays);
+  const earthToMoon = ephemeris.getEarthToMoon(time.tdb.julianDays);
   const ssbToEarth = ephemeris.getSsbToEarth(ssbToEmb, earthToMoon);
   const ssbToMoon = ephemeris.getSsbToMoon(ssbToEarth, earthToMoon);
 
@@ -67,7 +72,7 @@ export function getEarthAndMoonPositions(ephemeris: Ephemeris, time: Astronomica
 }
 
 export function getEarthMoonAndSunPositions(ephemeris: Ephemeris, time: AstronomicalTime): EarthMoonSunPositions {
-  const ssbToSun = ephemeris.getSsbToSun(time.julianDays);
+  const ssbToSun = ephemeris.getSsbToSun(time.tdb.julianDays);
   const sunPosition = ssbToSun.positions as Vector3;
 
   const { moonPosition, earthPosition } = getEarthAndMoonPositions(ephemeris, time);
@@ -83,6 +88,13 @@ export function getDatePosition(ephemeris: Ephemeris, time: AstronomicalTime): D
   return { date: time.date, positions, moonDistance, sunDistance };
 }
 
+export function getDatePositions(ephemeris: Ephemeris, startDate: Date, endDate: Date): DatePosition[] {
+  return seqStep(startDate.getTime(), endDate.getTime(), 1000 * 60 * 60 * 24).map<DatePosition>((unixTime) => {
+    const date = new Date(unixTime);
+    return getDatePosition(ephemeris, getAstronomicalTime(date));
+  });
+}
+
 export function getDatePositionAngles(datePosition: DatePosition): DatePositionAngles {
   const earthToMoon = subtractVectors(datePosition.positions.moonPosition, datePosition.positions.earthPosition);
   const earthToSun = subtractVectors(datePosition.positions.sunPosition, datePosition.positions.earthPosition);
@@ -100,59 +112,106 @@ export function getDatePositionAngles(datePosition: DatePosition): DatePositionA
 export function getLunarEclipseMaginutude(datePositionAngles: DatePositionAngles): EclipseMagnitude {
   const moonAngleFromUmbralConeCenter = Math.PI - datePositionAngles.angleBetweenMoonAndSun;
   const moonDistanceInConeDirection = datePositionAngles.moonDistance * Math.cos(moonAngleFromUmbralConeCenter);
-  const tanPenumbralConeAngle = (sunMeanRadius + earthMeanRadius) / datePositionAngles.sunDistance;
-  const penumbralRadius = earthMeanRadius + moonDistanceInConeDirection * tanPenumbralConeAngle;
 
-  const tanUmbralConeAngle = (sunMeanRadius - earthMeanRadius) / datePositionAngles.sunDistance;
-  const umbralRadius = earthMeanRadius - moonDistanceInConeDirection * tanUmbralConeAngle;
+  // The atmosphere enlarges the shadows, which is accounted for (as by Danjon) by enlarging the Earth's radius.
+  // https://eclipse.gsfc.nasa.gov/LEcat5/shadow.html
+  const shadowEarthRadius = earthMeanRadius * (1 + 1 / 85);
+  const tanPenumbralConeAngle = (sunMeanRadius + shadowEarthRadius) / datePositionAngles.sunDistance;
+  const penumbralRadius = shadowEarthRadius + moonDistanceInConeDirection * tanPenumbralConeAngle;
+
+  const tanUmbralConeAngle = (sunMeanRadius - shadowEarthRadius) / datePositionAngles.sunDistance;
+  const umbralRadius = shadowEarthRadius - moonDistanceInConeDirection * tanUmbralConeAngle;
 
   const moonCenterUmbralDistance = datePositionAngles.moonDistance * Math.sin(moonAngleFromUmbralConeCenter);
   const moonInnermostDistance = moonCenterUmbralDistance - moonMeanRadius;
 
+  // Magnitudes are the fraction of the Moon's diameter immersed in each shadow.
+  const moonDiameter = moonMeanRadius * 2;
   return {
-    penumbral: (penumbralRadius - moonInnermostDistance) / moonMeanRadius,
-    umbral: (umbralRadius - moonInnermostDistance) / moonMeanRadius,
+    penumbral: (penumbralRadius - moonInnermostDistance) / moonDiameter,
+    umbral: (umbralRadius - moonInnermostDistance) / moonDiameter,
   };
 }
 
 export function getEarthRotation(time: AstronomicalTime): EarthRotation {
-  // Apply the following rotations in order:
-  // - Z: axial
-  // - X: obliquity
-  // - Z: -zeta
-  // - Y: theta
+  // The Earth-fixed to world (GCRS) rotation is P'N'R(GST), where R(GST) is the rotation by Greenwich apparent
+  // sidereal time, N is nutation and P is precession. Apply the following rotations in order:
+  // - Z: GST
+  // - X: -true obliquity
+  // - Z: -nutation in longitude
+  // - X: mean obliquity
   // - Z: -z
+  // - Y: theta
+  // - Z: -zeta
+  // The frame bias between the J2000 mean equator and the ICRF (< 25 milliarcseconds, under a metre at the
+  // Earth's surface) is ignored.
+  // Precession and nutation are functions of TT, while the Earth rotation angle is a function of UT1.
+  const t = time.tt.j2000Days / 36525;
 
-  // The axial (Z) rotation is the regular daily rotation amount.
   // https://en.wikipedia.org/wiki/Sidereal_time#ERA
-  const axialZ = (2 * Math.PI * (0.779057273264 + 1.00273781191135448 * time.j2000Days)) % (2 * Math.PI);
+  const era = (2 * Math.PI * (0.779057273264 + 1.00273781191135448 * time.ut1.j2000Days)) % (2 * Math.PI);
+
+  // IAU 2006 precession (Capitaine et al. 2003).
+  // https://www.celestialprogramming.com/snippets/precessionIAU2006.html
+  // prettier-ignore
+  const zeta = (2.650545 + 2306.083227 * t + 0.2988499 * t ** 2 + 0.01801828 * t ** 3 - 0.000005971 * t ** 4 -
+    0.0000003173 * t ** 5) * radiansPerArcsecond;
+  // prettier-ignore
+  const z = (-2.650545 + 2306.077181 * t + 1.0927348 * t ** 2 + 0.01826837 * t ** 3 - 0.000028596 * t ** 4 -
+    0.0000002904 * t ** 5) * radiansPerArcsecond;
+  // prettier-ignore
+  const theta = (2004.191903 * t - 0.4294934 * t ** 2 - 0.04182264 * t ** 3 - 0.000007089 * t ** 4 -
+    0.0000001274 * t ** 5) * radiansPerArcsecond;
+  // prettier-ignore
+  const meanObliquity = (84381.406 - 46.836769 * t - 0.0001831 * t ** 2 + 0.0020034 * t ** 3 -
+    0.000000576 * t ** 4 - 0.0000000434 * t ** 5) * radiansPerArcsecond;
 
-  // https://en.wikipedia.org/wiki/Axial_tilt
-  // ε = [23°26′21.448″] − 46.8150″ T − 0.00059″ T^2 + 0.001813″ T^3
-  // We can skip the initial axial tilt of ~23° because the model is based on the J2000
-  // reference frame, whose axes are aligned with the Earth's equator at 2000-01-01T12:00Z.
-  const t = time.j2000Days / 36525;
-  const obliquityX = (-46.815 * t - 0.00059 * t * t + 0.001813 * t * t * t) * radiansPerArcsecond;
+  const nutation = getNutation(t);
+  const trueObliquity = meanObliquity + nutation.obliquity;
 
-  // https://www.celestialprogramming.com/snippets/precessionMeeus.html
-  // TODO: Consider AIU2006 (https://www.celestialprogramming.com/snippets/precessionIAU2006.html)
-  const zeta = (2306.2181 * t + 0.30188 * t * t + 0.017998 * t * t * t) * radiansPerArcsecond;
-  const z = (2306.2181 * t + 1.09468 * t * t + 0.018203 * t * t * t) * radiansPerArcsecond;
-  const theta = (2004.3109 * t - 0.42665 * t * t - 0.041833 * t * t * t) * radiansPerArcsecond;
+  // Greenwich mean sidereal time (IAU 2006), plus the equation of the equinoxes (including its largest
+  // complementary terms) to get apparent sidereal time.
+  // prettier-ignore
+  const gmst = era + (0.014506 + 4612.156534 * t + 1.3915817 * t ** 2 - 0.00000044 * t ** 3 -
+    0.000029956 * t ** 4 - 0.0000000368 * t ** 5) * radiansPerArcsecond;
+  const moonNodeLongitude = getMoonNodeLongitude(t);
+  const equationOfEquinoxes =
+    nutation.longitude * Math.cos(meanObliquity) +
+    (0.00264096 * Math.sin(moonNodeLongitude) + 0.00006352 * Math.sin(2 * moonNodeLongitude)) * radiansPerArcsecond;
+  const gst = gmst + equationOfEquinoxes;
 
   const transforms = [
-    asZRotation(axialZ),
-    asXRotation(obliquityX),
-    asZRotation(-zeta),
-    asYRotation(theta),
+    asZRotation(gst),
+    asXRotation(-trueObliquity),
+    asZRotation(-nutation.longitude),
+    asXRotation(meanObliquity),
     asZRotation(-z),
+    asYRotation(theta),
+    asZRotation(-zeta),
   ];
 
-  const axialAngle = axialZ - zeta - z;
+  const axialAngle = gst - zeta - z;
   const [axis] = applyTransforms(transforms, [0, 0, 1]);
   return { transforms, axialAngle, axis };
 }
 
+/**
+ * Converts a world (SSB-relative) position to the Earth-fixed frame, in which the Earth is centered at
+ * the origin, the Z axis is the Earth's axis and the X axis points to longitude 0.
+ */
+export function getEarthFixedPosition(
+  worldPosition: Vector3,
+  earthPosition: Vector3,
+  earthRotation: EarthRotation
+): Vector3 {
+  const localRotationMatrix = transpose4(getTransformSeriesMatrix(earthRotation.transforms));
+  const localTranslationMatrix = makeTranslation4(...subtractVectors([0, 0, 0], earthPosition));
+  const localMatrix = compose4(localTranslationMatrix, localRotationMatrix);
+
+  const [localPosition] = applyTransformMatrix(localMatrix, worldPosition);
+  return localPosition;
+}
+
 export function getEclipticPlane(embPos: Vector3, embVel: Vector3): EclipticPlane {
   const eclipticX = normalize(embPos);
   const eclipticZ = normalize(crossProduct3(embPos, embVel));
@@ -222,3 +281,27 @@ export function getGeodeticCoordinates(
 
   return [longitude, latitude];
 }
+
+/**
+ * The inverse of getGeodeticCoordinates, for a point at the given height (km) above the ellipsoid.
+ */
+export function getGeodeticPosition(
+  geodeticCoordinates: Vector2,
+  height: number,
+  equatorialRadius: number,
+  polarRadius: number
+): Vector3 {
+  // https://en.wikipedia.org/wiki/Geographic_coordinate_conversion#From_geodetic_to_ECEF_coordinates
+  const [longitude, latitude] = geodeticCoordinates;
+  const aCosLat = equatorialRadius * Math.cos(latitude);
+  const bSinLat = polarRadius * Math.sin(latitude);
+  const primeVerticalRadius = (equatorialRadius * equatorialRadius) / Math.sqrt(aCosLat * aCosLat + bSinLat * bSinLat);
+  const polarRatioSquared = (polarRadius * polarRadius) / (equatorialRadius * equatorialRadius);
+
+  const baseLen = (primeVerticalRadius + height) * Math.cos(latitude);
+  return [
+    baseLen * Math.cos(longitude),
+    baseLen * Math.sin(longitude),
+    (primeVerticalRadius * polarRatioSquared + height) * Math.sin(latitude),
+  ];
+}
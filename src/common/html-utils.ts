@@ -49,6 +49,22 @@ export function getElementByIdOrError<TElem extends HTMLElement>(id: string): TE
   return elem as TElem;
 }
 
+/**
+ * Saves the file to the user's downloads, via a temporary link.
+ */
+export function downloadFile(file: File) {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // The download has started by the time the click has been handled.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 export function createNumericInput(
   value: number,
   min: number,
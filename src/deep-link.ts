@@ -0,0 +1,173 @@
+import type { EarthCamera, GeodeticLocation, ProximityMapCamera, State, TimeRange } from "./state-types";
+
+/*
+Links to a particular view of the page, held in the URL hash, e.g.
+  #range=2025-01-01~2050-01-01&perigee=2034-11-25T03:42:00Z&loc=61.2181,-149.9003&earth=...&map=...
+The location and cameras are only included while a perigee is selected, since they depend on it.
+*/
+
+export type DeepLink = {
+  timeRange: TimeRange | null;
+  perigeeDate: Date | null;
+  location: GeodeticLocation | null;
+  earthCamera: EarthCamera | null;
+  proximityMapCamera: ProximityMapCamera | null;
+};
+
+// Perigees are recalculated when the page loads, so allow for small differences when finding the linked one.
+const perigeeMatchToleranceMs = 1000 * 60 * 60;
+
+// Avoid replacing the URL on every frame while the user drags a view around.
+const updateDelayMs = 300;
+
+export function parseDeepLink(hash: string): DeepLink {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return {
+    timeRange: parseTimeRange(params.get("range")),
+    perigeeDate: parseDate(params.get("perigee")),
+    location: parseLocation(params.get("loc")),
+    earthCamera: parseEarthCamera(params.get("earth")),
+    proximityMapCamera: parseProximityMapCamera(params.get("map")),
+  };
+}
+
+export function formatDeepLink(link: DeepLink): string {
+  const params = new URLSearchParams();
+  if (link.timeRange) {
+    params.set("range", `${formatDate(link.timeRange.startDate)}~${formatDate(link.timeRange.endDate)}`);
+  }
+
+  if (link.perigeeDate) {
+    params.set("perigee", formatDate(link.perigeeDate));
+  }
+
+  if (link.location) {
+    const { latitudeDegrees, longitudeDegrees } = link.location;
+    params.set("loc", [latitudeDegrees, longitudeDegrees].map((value) => Number(value.toFixed(5))).join(","));
+  }
+
+  if (link.earthCamera) {
+    const { distance, theta, phi } = link.earthCamera;
+    params.set("earth", formatNumbers([distance, theta, phi], 4));
+  }
+
+  if (link.proximityMapCamera) {
+    const { distance, rotation, tiltAngle } = link.proximityMapCamera;
+    params.set("map", formatNumbers([distance, rotation, tiltAngle], 6));
+  }
+
+  // Keep the separators readable.
+  return params.toString().replace(/%2C/g, ",").replace(/%3A/g, ":").replace(/%7E/gi, "~");
+}
+
+/**
+ * Applies the link in the URL hash to the state, then keeps the hash up to date as the state changes.
+ */
+export function restoreAndSyncDeepLink(state: State) {
+  const link = parseDeepLink(location.hash);
+
+  if (link.timeRange) {
+    state.timeRange.setValue(link.timeRange);
+  }
+
+  state.earthCamera.setValue(link.earthCamera);
+  state.proximityMapCamera.setValue(link.proximityMapCamera);
+
+  // The perigees are calculated asynchronously, and the location can only be selected on the map once the terrain
+  // for the perigee has loaded.
+  let pendingPerigeeDate = link.perigeeDate;
+  state.lunarEvents.subscribe(({ perigees }) => {
+    if (pendingPerigeeDate === null) {
+      return;
+    }
+
+    const perigeeTime = pendingPerigeeDate.getTime();
+    const perigee = perigees.find((p) => Math.abs(p.date.getTime() - perigeeTime) < perigeeMatchToleranceMs);
+    pendingPerigeeDate = null;
+    if (perigee) {
+      state.requestedLocation.setValue(link.location);
+      state.selectedPerigee.setValue(perigee);
+    }
+  });
+
+  let updateTimeout: ReturnType<typeof setTimeout> | null = null;
+  const scheduleUpdate = () => {
+    if (updateTimeout !== null) {
+      clearTimeout(updateTimeout);
+    }
+
+    updateTimeout = setTimeout(() => {
+      updateTimeout = null;
+      const hash = formatDeepLink(getCurrentLink(state));
+      history.replaceState(null, "", `#${hash}`);
+    }, updateDelayMs);
+  };
+
+  state.timeRange.subscribe(scheduleUpdate);
+  state.selectedPerigee.subscribe(scheduleUpdate);
+  state.terrainLocationData.subscribe(scheduleUpdate);
+  state.earthCamera.subscribe(scheduleUpdate);
+  state.proximityMapCamera.subscribe(scheduleUpdate);
+}
+
+function getCurrentLink(state: State): DeepLink {
+  const selectedPerigee = state.selectedPerigee.getValue();
+  const terrainLocationData = state.terrainLocationData.getValue();
+  return {
+    timeRange: state.timeRange.getValue(),
+    perigeeDate: selectedPerigee?.date ?? null,
+    location: selectedPerigee && terrainLocationData,
+    earthCamera: selectedPerigee && state.earthCamera.getValue(),
+    proximityMapCamera: selectedPerigee && state.proximityMapCamera.getValue(),
+  };
+}
+
+function parseTimeRange(text: string | null): TimeRange | null {
+  const [startDate, endDate] = (text ?? "").split("~").map(parseDate);
+  return startDate && endDate && startDate < endDate ? { startDate, endDate } : null;
+}
+
+function parseLocation(text: string | null): GeodeticLocation | null {
+  const values = parseNumbers(text, 2);
+  if (values === null) {
+    return null;
+  }
+
+  const [latitudeDegrees, longitudeDegrees] = values;
+  const isValid = Math.abs(latitudeDegrees) <= 90 && Math.abs(longitudeDegrees) <= 180;
+  return isValid ? { latitudeDegrees, longitudeDegrees } : null;
+}
+
+function parseEarthCamera(text: string | null): EarthCamera | null {
+  const values = parseNumbers(text, 3);
+  return values && values[0] > 0 ? { distance: values[0], theta: values[1], phi: values[2] } : null;
+}
+
+function parseProximityMapCamera(text: string | null): ProximityMapCamera | null {
+  const values = parseNumbers(text, 3);
+  return values && values[0] > 0 ? { distance: values[0], rotation: values[1], tiltAngle: values[2] } : null;
+}
+
+function parseDate(text: string | null | undefined): Date | null {
+  if (!text) {
+    return null;
+  }
+
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseNumbers(text: string | null, count: number): number[] | null {
+  const values = (text ?? "").split(",").map((value) => (value.trim() === "" ? NaN : Number(value)));
+  return values.length === count && values.every(Number.isFinite) ? values : null;
+}
+
+function formatDate(date: Date): string {
+  // Whole days are shown without the time.
+  const text = date.toISOString();
+  return text.endsWith("T00:00:00.000Z") ? text.slice(0, 10) : text.replace(/\.000Z$/, "Z");
+}
+
+function formatNumbers(values: number[], significantDigits: number): string {
+  return values.map((value) => Number(value.toPrecision(significantDigits)).toString()).join(",");
+}
@@ -0,0 +1,153 @@
+import { EphemProperties, Ephemeris, getSsbToEarth, getSsbToMoon, SeriesType } from "./ephemeris";
+import { createEphemerisFromFile, readEphemerisFileHeader } from "./ephemeris-file";
+
+/*
+The built-in ephemeris is split into a file per decade (in resources/ephemeris), each in the format described in
+ephemeris-file.ts, with an index describing them. Only the chunks covering the dates being viewed are loaded.
+*/
+
+export const ephemerisIndexFileName = "index.json";
+export const ephemerisIndexVersion = 1;
+
+export type EphemerisChunk = {
+  fileName: string;
+  startJulianDate: number;
+  endJulianDate: number;
+  sizeInBytes: number;
+  // CRC-32 from the header of the chunk file.
+  checksum: number;
+};
+
+export type EphemerisIndex = {
+  version: number;
+  deNumber: number;
+  earthToMoonRatio: number;
+  startJulianDate: number;
+  endJulianDate: number;
+  chunks: EphemerisChunk[];
+};
+
+export type EphemerisChunkLoader = (chunk: EphemerisChunk) => Promise<DataView>;
+
+export function parseEphemerisIndex(json: unknown): EphemerisIndex {
+  const index = json as EphemerisIndex;
+  if (index?.version !== ephemerisIndexVersion) {
+    throw new Error(`Unsupported ephemeris index version ${index?.version} (expected ${ephemerisIndexVersion}).`);
+  }
+
+  if (!Array.isArray(index.chunks) || index.chunks.length === 0) {
+    throw new Error("Ephemeris index contains no chunks.");
+  }
+
+  // The chunks must be in order and leave no gaps.
+  index.chunks.forEach((chunk, i) => {
+    const expectedStart = i === 0 ? index.startJulianDate : index.chunks[i - 1].endJulianDate;
+    if (chunk.startJulianDate !== expectedStart || chunk.endJulianDate <= chunk.startJulianDate) {
+      throw new Error(`Ephemeris index chunk ${chunk.fileName} does not follow on from the previous chunk.`);
+    }
+  });
+
+  if (index.chunks[index.chunks.length - 1].endJulianDate !== index.endJulianDate) {
+    throw new Error("Ephemeris index chunks do not cover the whole of its range.");
+  }
+
+  return index;
+}
+
+/**
+ * Checks whether the data (e.g. from a cache) is a valid file for the chunk as it is described in the index.
+ */
+export function isEphemerisChunkData(dataView: DataView, chunk: EphemerisChunk): boolean {
+  if (dataView.byteLength !== chunk.sizeInBytes) {
+    return false;
+  }
+
+  try {
+    return readEphemerisFileHeader(dataView).checksum === chunk.checksum;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * An ephemeris made of separately loaded chunks. Dates are only available once loadRange has completed for them.
+ */
+export class ChunkedEphemeris implements Ephemeris {
+  private readonly loadedChunks = new Map<string, Ephemeris>();
+  private readonly chunkPromises = new Map<string, Promise<void>>();
+
+  constructor(private readonly index: EphemerisIndex, private readonly loadChunk: EphemerisChunkLoader) {}
+
+  public hasSeries(seriesType: SeriesType): boolean {
+    return [SeriesType.SsbToEmb, SeriesType.EarthToMoon, SeriesType.SsbToSun].includes(seriesType);
+  }
+
+  public getStartJulianDate(): number {
+    return this.index.startJulianDate;
+  }
+
+  public getEndJulianDate(): number {
+    return this.index.endJulianDate;
+  }
+
+  public async loadRange(startJulianDate: number, endJulianDate: number): Promise<void> {
+    const chunks = this.index.chunks.filter(
+      (chunk) => chunk.endJulianDate > startJulianDate && chunk.startJulianDate <= endJulianDate
+    );
+
+    await Promise.all(chunks.map((chunk) => this.getChunkPromise(chunk)));
+  }
+
+  public getSsbToSun(julianDate: number): EphemProperties {
+    return this.getChunkEphemeris(julianDate).getSsbToSun(julianDate);
+  }
+
+  public getSsbToEmb(julianDate: number): EphemProperties {
+    return this.getChunkEphemeris(julianDate).getSsbToEmb(julianDate);
+  }
+
+  public getSsbToEarth(ssbToEmb: EphemProperties, earthToMoon: EphemProperties): EphemProperties {
+    return getSsbToEarth(ssbToEmb, earthToMoon, this.index.earthToMoonRatio);
+  }
+
+  public getSsbToMoon(ssbToEarth: EphemProperties, earthToMoon: EphemProperties): EphemProperties {
+    return getSsbToMoon(ssbToEarth, earthToMoon);
+  }
+
+  public getEarthToMoon(julianDate: number): EphemProperties {
+    return this.getChunkEphemeris(julianDate).getEarthToMoon(julianDate);
+  }
+
+  private getChunkPromise(chunk: EphemerisChunk): Promise<void> {
+    let promise = this.chunkPromises.get(chunk.fileName);
+    if (promise === undefined) {
+      promise = this.loadChunk(chunk).then((dataView) => {
+        if (!isEphemerisChunkData(dataView, chunk)) {
+          throw new Error(`Ephemeris chunk ${chunk.fileName} does not match the index.`);
+        }
+
+        this.loadedChunks.set(chunk.fileName, createEphemerisFromFile(dataView));
+      });
+
+      // Allow another attempt if loading fails.
+      promise.catch(() => this.chunkPromises.delete(chunk.fileName));
+      this.chunkPromises.set(chunk.fileName, promise);
+    }
+
+    return promise;
+  }
+
+  private getChunkEphemeris(julianDate: number): Ephemeris {
+    const chunk = this.index.chunks.find((c) => julianDate >= c.startJulianDate && julianDate < c.endJulianDate);
+    if (!chunk) {
+      throw new Error(`Julian date ${julianDate} is outside the range of the ephemeris`);
+    }
+
+    const ephemeris = this.loadedChunks.get(chunk.fileName);
+    if (!ephemeris) {
+      throw new Error(`Ephemeris chunk ${chunk.fileName} for Julian date ${julianDate} has not been loaded`);
+    }
+
+    return ephemeris;
+  }
+}
@@ -0,0 +1,215 @@
+import { BinaryEphemeris, Ephemeris, MetadataMap, SeriesMetadata, SeriesType } from "./ephemeris";
+
+/*
+Layout of the ephemeris files generated by build/create-ephemeris.ts (all values little-endian):
+
+  0   magic "MOONEPH\0"
+  8   u32 format version
+  12  u32 header size in bytes (the series data follows it)
+  16  u32 DE number of the source ephemeris (e.g. 440)
+  20  u32 series count
+  24  f64 start Julian date (TDB) of every series
+  32  f64 Earth/Moon mass ratio
+  40  u32 series data size in bytes
+  44  u32 CRC-32 of the series data
+  48  series table, one 40 byte entry per series:
+      0   u32 series type
+      4   u32 property count
+      8   u32 coefficient count
+      12  u32 intervals per block
+      16  f64 interval duration in days
+      24  u32 offset from the start of the file
+      28  u32 size in bytes
+      32  u32 block size in bytes
+      36  u32 reserved
+*/
+
+const magic = "MOONEPH\0";
+export const ephemerisFileVersion = 1;
+
+const fixedHeaderSize = 48;
+const seriesEntrySize = 40;
+
+export type EphemerisFileContents = {
+  deNumber: number;
+  startJulianDate: number;
+  earthToMoonRatio: number;
+  metadataMap: MetadataMap;
+};
+
+export type EphemerisFileHeader = EphemerisFileContents & {
+  version: number;
+  headerSize: number;
+  dataSize: number;
+  checksum: number;
+};
+
+export function getEphemerisFileHeaderSize(seriesCount: number): number {
+  return fixedHeaderSize + seriesCount * seriesEntrySize;
+}
+
+/**
+ * Writes the header at the start of a file whose series data has already been written after it.
+ */
+export function writeEphemerisFileHeader(dataView: DataView, contents: EphemerisFileContents) {
+  const headerSize = getEphemerisFileHeaderSize(contents.metadataMap.size);
+  const dataSize = dataView.byteLength - headerSize;
+
+  for (let i = 0; i < magic.length; i++) {
+    dataView.setUint8(i, magic.charCodeAt(i));
+  }
+
+  dataView.setUint32(8, ephemerisFileVersion, true);
+  dataView.setUint32(12, headerSize, true);
+  dataView.setUint32(16, contents.deNumber, true);
+  dataView.setUint32(20, contents.metadataMap.size, true);
+  dataView.setFloat64(24, contents.startJulianDate, true);
+  dataView.setFloat64(32, contents.earthToMoonRatio, true);
+  dataView.setUint32(40, dataSize, true);
+  dataView.setUint32(44, getCrc32(dataView, headerSize, dataSize), true);
+
+  [...contents.metadataMap.values()].forEach((metadata, i) => {
+    const entryOffset = fixedHeaderSize + i * seriesEntrySize;
+    dataView.setUint32(entryOffset, metadata.seriesType, true);
+    dataView.setUint32(entryOffset + 4, metadata.propertyCount, true);
+    dataView.setUint32(entryOffset + 8, metadata.coeffCount, true);
+    dataView.setUint32(entryOffset + 12, metadata.intervalsPerBlock, true);
+    dataView.setFloat64(entryOffset + 16, metadata.intervalDurationDays, true);
+    dataView.setUint32(entryOffset + 24, metadata.offset, true);
+    dataView.setUint32(entryOffset + 28, metadata.sizeInBytes, true);
+    dataView.setUint32(entryOffset + 32, metadata.blockSizeInBytes, true);
+    dataView.setUint32(entryOffset + 36, 0, true);
+  });
+}
+
+/**
+ * Reads and validates the header, throwing if the file is not one we can read or has been corrupted.
+ */
+export function readEphemerisFileHeader(dataView: DataView): EphemerisFileHeader {
+  if (dataView.byteLength < fixedHeaderSize) {
+    throw new Error(`Ephemeris file is too small to contain a header (${dataView.byteLength} bytes).`);
+  }
+
+  const fileMagic = String.fromCharCode(...new Uint8Array(dataView.buffer, dataView.byteOffset, magic.length));
+  if (fileMagic !== magic) {
+    throw new Error("Not an ephemeris file: it may be from an older version, so regenerate it with build:eph.");
+  }
+
+  const version = dataView.getUint32(8, true);
+  if (version !== ephemerisFileVersion) {
+    throw new Error(`Unsupported ephemeris file version ${version} (expected ${ephemerisFileVersion}).`);
+  }
+
+  const headerSize = dataView.getUint32(12, true);
+  const seriesCount = dataView.getUint32(20, true);
+  if (headerSize !== getEphemerisFileHeaderSize(seriesCount) || headerSize > dataView.byteLength) {
+    throw new Error(`Ephemeris file header size ${headerSize} does not match its ${seriesCount} series.`);
+  }
+
+  const dataSize = dataView.getUint32(40, true);
+  if (headerSize + dataSize !== dataView.byteLength) {
+    throw new Error(
+      `Ephemeris file is ${dataView.byteLength} bytes, but its header specifies ${headerSize + dataSize}.`
+    );
+  }
+
+  const checksum = dataView.getUint32(44, true);
+  const actualChecksum = getCrc32(dataView, headerSize, dataSize);
+  if (checksum !== actualChecksum) {
+    throw new Error(`Ephemeris file checksum ${actualChecksum} does not match its header (${checksum}).`);
+  }
+
+  const metadataMap: MetadataMap = new Map<SeriesType, SeriesMetadata>();
+  for (let i = 0; i < seriesCount; i++) {
+    const metadata = readSeriesMetadata(dataView, fixedHeaderSize + i * seriesEntrySize);
+    if (metadataMap.has(metadata.seriesType)) {
+      throw new Error(`Ephemeris file contains more than one ${SeriesType[metadata.seriesType]} series.`);
+    }
+
+    metadataMap.set(metadata.seriesType, metadata);
+  }
+
+  return {
+    version,
+    headerSize,
+    deNumber: dataView.getUint32(16, true),
+    startJulianDate: dataView.getFloat64(24, true),
+    earthToMoonRatio: dataView.getFloat64(32, true),
+    metadataMap,
+    dataSize,
+    checksum,
+  };
+}
+
+export function createEphemerisFromFile(dataView: DataView): Ephemeris {
+  const header = readEphemerisFileHeader(dataView);
+  const missingSeriesTypes = [SeriesType.SsbToEmb, SeriesType.EarthToMoon, SeriesType.SsbToSun].filter(
+    (seriesType) => !header.metadataMap.has(seriesType)
+  );
+
+  if (missingSeriesTypes.length > 0) {
+    throw new Error(`Ephemeris file is missing series: ${missingSeriesTypes.map((t) => SeriesType[t]).join(", ")}.`);
+  }
+
+  return new BinaryEphemeris(dataView, header.metadataMap, header.startJulianDate, header.earthToMoonRatio);
+}
+
+function readSeriesMetadata(dataView: DataView, entryOffset: number): SeriesMetadata {
+  const seriesType: SeriesType = dataView.getUint32(entryOffset, true);
+  if (SeriesType[seriesType] === undefined) {
+    throw new Error(`Ephemeris file contains unknown series type ${seriesType}.`);
+  }
+
+  const metadata: SeriesMetadata = {
+    seriesType,
+    propertyCount: dataView.getUint32(entryOffset + 4, true),
+    coeffCount: dataView.getUint32(entryOffset + 8, true),
+    intervalsPerBlock: dataView.getUint32(entryOffset + 12, true),
+    intervalDurationDays: dataView.getFloat64(entryOffset + 16, true),
+    offset: dataView.getUint32(entryOffset + 24, true),
+    sizeInBytes: dataView.getUint32(entryOffset + 28, true),
+    blockSizeInBytes: dataView.getUint32(entryOffset + 32, true),
+  };
+
+  const isValid =
+    metadata.propertyCount > 0 &&
+    metadata.coeffCount > 0 &&
+    metadata.intervalsPerBlock > 0 &&
+    metadata.intervalDurationDays > 0 &&
+    metadata.blockSizeInBytes > 0 &&
+    metadata.sizeInBytes % metadata.blockSizeInBytes === 0 &&
+    metadata.offset + metadata.sizeInBytes <= dataView.byteLength;
+
+  if (!isValid) {
+    throw new Error(`Ephemeris file contains invalid ${SeriesType[seriesType]} series: ${JSON.stringify(metadata)}`);
+  }
+
+  return metadata;
+}
+
+let crc32Table: Uint32Array | null = null;
+
+function getCrc32(dataView: DataView, offset: number, length: number): number {
+  crc32Table = crc32Table || createCrc32Table();
+  const bytes = new Uint8Array(dataView.buffer, dataView.byteOffset + offset, length);
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crc32Table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function createCrc32Table(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+
+    table[n] = c;
+  }
+
+  return table;
+}
@@ -0,0 +1,73 @@
+import { Ephemeris } from "./ephemeris";
+import {
+  ChunkedEphemeris,
+  EphemerisChunk,
+  ephemerisIndexFileName,
+  isEphemerisChunkData,
+  parseEphemerisIndex,
+} from "./ephemeris-chunks";
+import { createJplDeEphemeris } from "./jplde-file";
+import {
+  deleteStaleEphemerisChunks,
+  getIndexedDb,
+  readEphemerisChunk,
+  readJplDeFile,
+  storeEphemerisChunk,
+} from "./storage";
+
+/**
+ * Gets the user's JPL DE file if they have loaded one, otherwise the built-in chunked ephemeris, whose chunks are
+ * cached in IndexedDB. Used by both the page and the ephemeris worker.
+ */
+export async function loadEphemeris(): Promise<Ephemeris> {
+  const db = await getIndexedDb();
+
+  // A full JPL DE file loaded by the user takes the place of our own subset.
+  const jplDeFile = db === null ? null : await readJplDeFile(db);
+  if (jplDeFile !== null) {
+    try {
+      const buffer = await jplDeFile.arrayBuffer();
+      return createJplDeEphemeris(new DataView(buffer));
+    } catch (err) {
+      console.error(`Unable to use stored JPL DE file: ${err}`);
+    }
+  }
+
+  // The index is small, and fetched every time so that it always matches the chunks on the server.
+  const response = await fetchEphemerisResource(ephemerisIndexFileName);
+  const index = parseEphemerisIndex(await response.json());
+  if (db !== null) {
+    await deleteStaleEphemerisChunks(db, index.chunks);
+  }
+
+  return new ChunkedEphemeris(index, (chunk) => loadEphemerisChunk(db, chunk));
+}
+
+async function loadEphemerisChunk(db: IDBDatabase | null, chunk: EphemerisChunk): Promise<DataView> {
+  const cachedBlob = db === null ? null : await readEphemerisChunk(db, chunk);
+  if (cachedBlob !== null) {
+    const dataView = new DataView(await cachedBlob.arrayBuffer());
+    if (isEphemerisChunkData(dataView, chunk)) {
+      return dataView;
+    }
+  }
+
+  // Not cached, or the cached copy is corrupt.
+  const response = await fetchEphemerisResource(chunk.fileName);
+  const chunkBlob = await response.blob();
+  const dataView = new DataView(await chunkBlob.arrayBuffer());
+  if (db !== null && isEphemerisChunkData(dataView, chunk)) {
+    await storeEphemerisChunk(db, chunk, chunkBlob);
+  }
+
+  return dataView;
+}
+
+async function fetchEphemerisResource(fileName: string): Promise<Response> {
+  const response = await fetch(`./resources/ephemeris/${fileName}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ephemeris data (${fileName}): ${response.status}`);
+  }
+
+  return response;
+}
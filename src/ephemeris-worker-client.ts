@@ -0,0 +1,74 @@
+import type { DatePosition } from "./calculations";
+import { EphemerisWorkerRequest, EphemerisWorkerResponse, unpackDatePositions } from "./ephemeris-worker-messages";
+import type { LunarEvents } from "./lunar-events";
+import type { TimeRange } from "./state-types";
+
+type PendingRequest = {
+  resolve: (response: EphemerisWorkerResponse) => void;
+  reject: (err: Error) => void;
+};
+
+/**
+ * Runs calculations over whole time ranges in the ephemeris worker, so that the page stays responsive.
+ */
+export class EphemerisWorkerClient {
+  private readonly pendingRequests = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+
+  constructor(private readonly worker: Worker) {
+    worker.addEventListener("message", (event: MessageEvent<EphemerisWorkerResponse>) => this.handleResponse(event));
+    worker.addEventListener("error", (event) => this.rejectAll(new Error(`Ephemeris worker error: ${event.message}`)));
+  }
+
+  public async getDatePositions(timeRange: TimeRange): Promise<DatePosition[]> {
+    const response = await this.send("date-positions", timeRange);
+    if (response.type !== "date-positions") {
+      throw new Error(`Unexpected ephemeris worker response: ${response.type}`);
+    }
+
+    return unpackDatePositions(response.values);
+  }
+
+  public async getLunarEvents(timeRange: TimeRange): Promise<LunarEvents> {
+    const response = await this.send("lunar-events", timeRange);
+    if (response.type !== "lunar-events") {
+      throw new Error(`Unexpected ephemeris worker response: ${response.type}`);
+    }
+
+    return response.lunarEvents;
+  }
+
+  private send(type: EphemerisWorkerRequest["type"], timeRange: TimeRange): Promise<EphemerisWorkerResponse> {
+    const request: EphemerisWorkerRequest = {
+      id: this.nextRequestId++,
+      type,
+      startTime: timeRange.startDate.getTime(),
+      endTime: timeRange.endDate.getTime(),
+    };
+
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(request.id, { resolve, reject });
+      this.worker.postMessage(request);
+    });
+  }
+
+  private handleResponse(event: MessageEvent<EphemerisWorkerResponse>) {
+    const response = event.data;
+    const pendingRequest = this.pendingRequests.get(response.id);
+    if (pendingRequest === undefined) {
+      return;
+    }
+
+    this.pendingRequests.delete(response.id);
+    if (response.type === "error") {
+      pendingRequest.reject(new Error(response.message));
+    } else {
+      pendingRequest.resolve(response);
+    }
+  }
+
+  private rejectAll(err: Error) {
+    this.pendingRequests.forEach(({ reject }) => reject(err));
+    this.pendingRequests.clear();
+  }
+}
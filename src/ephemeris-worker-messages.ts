@@ -0,0 +1,47 @@
+import type { DatePosition } from "./calculations";
+import type { Vector3 } from "./common/numeric-types";
+import type { LunarEvents } from "./lunar-events";
+
+/*
+Messages between the page and the ephemeris worker. Each request has an ID, which is returned in the response to it.
+Dates are sent as Unix times; date positions are packed into a Float64Array whose buffer is transferred.
+*/
+
+export type EphemerisWorkerRequest =
+  | { id: number; type: "date-positions"; startTime: number; endTime: number }
+  | { id: number; type: "lunar-events"; startTime: number; endTime: number };
+
+export type EphemerisWorkerResponse =
+  | { id: number; type: "date-positions"; values: Float64Array }
+  | { id: number; type: "lunar-events"; lunarEvents: LunarEvents }
+  | { id: number; type: "error"; message: string };
+
+// Time, Moon and Sun distances, then the Earth, Moon and Sun positions.
+const datePositionValueCount = 12;
+
+export function packDatePositions(datePositions: DatePosition[]): Float64Array {
+  const values = new Float64Array(datePositions.length * datePositionValueCount);
+  datePositions.forEach((dp, i) => {
+    const { earthPosition, moonPosition, sunPosition } = dp.positions;
+    values.set(
+      [dp.date.getTime(), dp.moonDistance, dp.sunDistance, ...earthPosition, ...moonPosition, ...sunPosition],
+      i * datePositionValueCount
+    );
+  });
+
+  return values;
+}
+
+export function unpackDatePositions(values: Float64Array): DatePosition[] {
+  const count = values.length / datePositionValueCount;
+  return Array.from({ length: count }, (_, i) => {
+    const offset = i * datePositionValueCount;
+    const getVector = (start: number) => [...values.subarray(offset + start, offset + start + 3)] as Vector3;
+    return {
+      date: new Date(values[offset]),
+      positions: { earthPosition: getVector(3), moonPosition: getVector(6), sunPosition: getVector(9) },
+      moonDistance: values[offset + 1],
+      sunDistance: values[offset + 2],
+    };
+  });
+}
@@ -0,0 +1,41 @@
+import { getDatePositions } from "./calculations";
+import { loadEphemeris } from "./ephemeris-loader";
+import { EphemerisWorkerRequest, EphemerisWorkerResponse, packDatePositions } from "./ephemeris-worker-messages";
+import { computeLunarEvents } from "./lunar-events";
+import type { TimeRange } from "./state-types";
+import { loadEphemerisRange } from "./time-range";
+
+/*
+Entry point of the worker that evaluates the ephemeris over whole time ranges, which takes long enough to make the
+page unresponsive. It loads its own copy of the ephemeris.
+*/
+
+const ephPromise = loadEphemeris();
+
+addEventListener("message", async (event: MessageEvent<EphemerisWorkerRequest>) => {
+  const request = event.data;
+  try {
+    const response = await handleRequest(request);
+    const transfer = response.type === "date-positions" ? [response.values.buffer] : [];
+    postMessage(response, { transfer });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    postMessage({ id: request.id, type: "error", message } satisfies EphemerisWorkerResponse);
+  }
+});
+
+async function handleRequest(request: EphemerisWorkerRequest): Promise<EphemerisWorkerResponse> {
+  const ephemeris = await ephPromise;
+  const timeRange: TimeRange = { startDate: new Date(request.startTime), endDate: new Date(request.endTime) };
+  await loadEphemerisRange(ephemeris, timeRange);
+
+  switch (request.type) {
+    case "date-positions": {
+      const { startDate, endDate } = timeRange;
+      const datePositions = getDatePositions(ephemeris, startDate, endDate).filter((dp) => dp.date < endDate);
+      return { id: request.id, type: request.type, values: packDatePositions(datePositions) };
+    }
+    case "lunar-events":
+      return { id: request.id, type: request.type, lunarEvents: computeLunarEvents(ephemeris, timeRange) };
+  }
+}
@@ -1,5 +1,5 @@
-// From header.440
-const earthToMoonRatio = 0.813005682214972154e2;
+// From header.440, for ephemerides that don't include the ratio.
+export const defaultEarthToMoonRatio = 0.813005682214972154e2;
 
 export enum SeriesType {
   SsbToEmb,
@@ -15,6 +15,10 @@ export type SeriesMetadata = {
   intervalDurationDays: number;
   propertyCount: number;
   coeffCount: number;
+  // Intervals are stored in blocks that start blockSizeInBytes apart. In the JPL files each block also holds the
+  // intervals of the other series; in our own files the intervals of a series are contiguous.
+  intervalsPerBlock: number;
+  blockSizeInBytes: number;
 };
 
 export type MetadataMap = Map<SeriesType, SeriesMetadata>;
@@ -24,13 +28,58 @@ export type EphemProperties = {
   velocities: number[];
 };
 
-export class Ephemeris {
+/**
+ * Positions (km) and velocities (km/day) of the bodies we need, at Julian dates (TDB).
+ */
+export interface Ephemeris {
+  hasSeries(seriesType: SeriesType): boolean;
+  getStartJulianDate(): number;
+  getEndJulianDate(): number;
+  getSsbToSun(julianDate: number): EphemProperties;
+  getSsbToEmb(julianDate: number): EphemProperties;
+  getSsbToEarth(ssbToEmb: EphemProperties, earthToMoon: EphemProperties): EphemProperties;
+  getSsbToMoon(ssbToEarth: EphemProperties, earthToMoon: EphemProperties): EphemProperties;
+  getEarthToMoon(julianDate: number): EphemProperties;
+  // Makes the data between the dates available, for ephemerides that load it on demand.
+  loadRange(startJulianDate: number, endJulianDate: number): Promise<void>;
+}
+
+/**
+ * Evaluates the Chebyshev series held in a single buffer.
+ */
+export class BinaryEphemeris implements Ephemeris {
   constructor(
     private readonly dataView: DataView,
     private readonly metadataMap: MetadataMap,
-    private readonly startJulianDate: number
+    private readonly startJulianDate: number,
+    private readonly earthToMoonRatio: number = defaultEarthToMoonRatio
   ) {}
 
+  public hasSeries(seriesType: SeriesType): boolean {
+    return this.metadataMap.has(seriesType);
+  }
+
+  public getStartJulianDate(): number {
+    return this.startJulianDate;
+  }
+
+  /**
+   * Gets the end of the period covered by all the series.
+   */
+  public getEndJulianDate(): number {
+    const seriesEndDates = [...this.metadataMap.values()].map(
+      (metadata) => this.startJulianDate + getIntervalCount(metadata) * metadata.intervalDurationDays
+    );
+
+    return Math.min(...seriesEndDates);
+  }
+
+  public async loadRange(startJulianDate: number, endJulianDate: number): Promise<void> {
+    if (startJulianDate < this.startJulianDate || endJulianDate > this.getEndJulianDate()) {
+      throw new Error(`Julian dates ${startJulianDate} to ${endJulianDate} are outside the range of the ephemeris`);
+    }
+  }
+
   public getSsbToSun(julianDate: number): EphemProperties {
     return this.getProperties(SeriesType.SsbToSun, julianDate);
   }
@@ -40,25 +89,11 @@ export class Ephemeris {
   }
 
   public getSsbToEarth(ssbToEmb: EphemProperties, earthToMoon: EphemProperties): EphemProperties {
-    const positions = [0, 0, 0];
-    const velocities = [0, 0, 0];
-    for (let i = 0; i < 3; i++) {
-      positions[i] = ssbToEmb.positions[i] - earthToMoon.positions[i] / (1.0 + earthToMoonRatio);
-      velocities[i] = ssbToEmb.velocities[i] - earthToMoon.velocities[i] / (1.0 + earthToMoonRatio);
-    }
-
-    return { positions, velocities };
+    return getSsbToEarth(ssbToEmb, earthToMoon, this.earthToMoonRatio);
   }
 
   public getSsbToMoon(ssbToEarth: EphemProperties, earthToMoon: EphemProperties): EphemProperties {
-    const positions = [0, 0, 0];
-    const velocities = [0, 0, 0];
-    for (let i = 0; i < 3; i++) {
-      positions[i] = ssbToEarth.positions[i] + earthToMoon.positions[i];
-      velocities[i] = ssbToEarth.velocities[i] + earthToMoon.velocities[i];
-    }
-
-    return { positions, velocities };
+    return getSsbToMoon(ssbToEarth, earthToMoon);
   }
 
   public getEarthToMoon(julianDate: number): EphemProperties {
@@ -69,8 +104,17 @@ export class Ephemeris {
     const metadata = this.getSeriesMetadata(seriesType);
     const seriesStartOffset = metadata.offset;
     const intervalIndex = Math.floor((julianDate - this.startJulianDate) / metadata.intervalDurationDays);
+    if (intervalIndex < 0 || intervalIndex >= getIntervalCount(metadata)) {
+      throw new Error(`Julian date ${julianDate} is outside the range of the ephemeris`);
+    }
+
     const intervalStartDate = this.startJulianDate + intervalIndex * metadata.intervalDurationDays;
-    const intervalStartOffset = seriesStartOffset + getIntervalSizeInBytes(metadata) * intervalIndex;
+    const blockIndex = Math.floor(intervalIndex / metadata.intervalsPerBlock);
+    const intervalIndexInBlock = intervalIndex - blockIndex * metadata.intervalsPerBlock;
+    const intervalStartOffset =
+      seriesStartOffset +
+      blockIndex * metadata.blockSizeInBytes +
+      intervalIndexInBlock * getIntervalSizeInBytes(metadata);
     const propertySize = metadata.coeffCount * 8;
 
     // Normalize time to be in the range [-1, 1] over the period covered by the interval.
@@ -136,11 +180,41 @@ export class Ephemeris {
   }
 }
 
+export function getSsbToEarth(
+  ssbToEmb: EphemProperties,
+  earthToMoon: EphemProperties,
+  earthToMoonRatio: number
+): EphemProperties {
+  const positions = [0, 0, 0];
+  const velocities = [0, 0, 0];
+  for (let i = 0; i < 3; i++) {
+    positions[i] = ssbToEmb.positions[i] - earthToMoon.positions[i] / (1.0 + earthToMoonRatio);
+    velocities[i] = ssbToEmb.velocities[i] - earthToMoon.velocities[i] / (1.0 + earthToMoonRatio);
+  }
+
+  return { positions, velocities };
+}
+
+export function getSsbToMoon(ssbToEarth: EphemProperties, earthToMoon: EphemProperties): EphemProperties {
+  const positions = [0, 0, 0];
+  const velocities = [0, 0, 0];
+  for (let i = 0; i < 3; i++) {
+    positions[i] = ssbToEarth.positions[i] + earthToMoon.positions[i];
+    velocities[i] = ssbToEarth.velocities[i] + earthToMoon.velocities[i];
+  }
+
+  return { positions, velocities };
+}
+
 function getIntervalSizeInBytes(metadata: SeriesMetadata) {
   const valueCount = metadata.coeffCount * metadata.propertyCount;
   return 8 * valueCount; // 64-bit coefficients
 }
 
+function getIntervalCount(metadata: SeriesMetadata) {
+  return Math.floor(metadata.sizeInBytes / metadata.blockSizeInBytes) * metadata.intervalsPerBlock;
+}
+
 function readFloat64s(dataView: DataView, startOffset: number, count: number) {
   const results = new Array<number>(count);
   for (let i = 0; i < count; i++) {
@@ -0,0 +1,152 @@
+import { readHorizonsResponse, storeHorizonsResponse } from "./storage";
+
+/**
+ * Gets the JSON response of the Horizons API for a query.
+ */
+export interface HorizonsClient {
+  getResponse(params: URLSearchParams): Promise<unknown>;
+}
+
+export type HttpHorizonsClientOptions = {
+  baseUrl: string;
+  // Prefix to which the encoded request URL is appended, or null to request the base URL directly
+  // (which browsers only allow if the API sends CORS headers).
+  proxyUrl: string | null;
+};
+
+export const defaultHttpHorizonsClientOptions: HttpHorizonsClientOptions = {
+  baseUrl: "https://ssd.jpl.nasa.gov/api/horizons.api",
+  proxyUrl: "https://corsproxy.io/?url=",
+};
+
+export class HttpHorizonsClient implements HorizonsClient {
+  constructor(private readonly options: HttpHorizonsClientOptions) {}
+
+  public async getResponse(params: URLSearchParams): Promise<unknown> {
+    const uri = `${this.options.baseUrl}?${params}`;
+    const requestUri = this.options.proxyUrl === null ? uri : `${this.options.proxyUrl}${encodeURIComponent(uri)}`;
+
+    const response = await fetch(new Request(requestUri));
+    if (!response.ok) {
+      throw new Error(`Response status: ${response.status}`);
+    }
+
+    return await response.json();
+  }
+}
+
+/**
+ * Stores responses in IndexedDB, so that each query is only sent once. Queries are still sent
+ * if the database is unavailable.
+ */
+export class CachingHorizonsClient implements HorizonsClient {
+  constructor(private readonly client: HorizonsClient, private readonly dbPromise: Promise<IDBDatabase | null>) {}
+
+  public async getResponse(params: URLSearchParams): Promise<unknown> {
+    const db = await this.dbPromise;
+    const key = getHorizonsRequestKey(params);
+    if (db !== null) {
+      const cachedResponse = await readHorizonsResponse(db, key).catch(() => null);
+      if (cachedResponse !== null) {
+        return cachedResponse;
+      }
+    }
+
+    const response = await this.client.getResponse(params);
+    if (db !== null) {
+      await storeHorizonsResponse(db, key, response).catch((err) =>
+        console.error(`Failed to store Horizons response: ${err}`)
+      );
+    }
+
+    return response;
+  }
+}
+
+export type RateLimitOptions = {
+  // Minimum time between the start of one request and the next.
+  minIntervalMilliseconds: number;
+  maxAttempts: number;
+  // Delay before the first retry, doubled for each subsequent one.
+  retryDelayMilliseconds: number;
+};
+
+export const defaultRateLimitOptions: RateLimitOptions = {
+  minIntervalMilliseconds: 1000,
+  maxAttempts: 3,
+  retryDelayMilliseconds: 2000,
+};
+
+/**
+ * Sends one query at a time, spaced out to avoid overloading the server (and proxy), retrying failed ones.
+ */
+export class RateLimitedHorizonsClient implements HorizonsClient {
+  private queue: Promise<unknown> = Promise.resolve();
+  private nextRequestTime = 0;
+
+  constructor(private readonly client: HorizonsClient, private readonly options: RateLimitOptions) {}
+
+  public getResponse(params: URLSearchParams): Promise<unknown> {
+    const response = this.queue.then(() => this.getResponseWithRetries(params));
+    this.queue = response.catch(() => undefined);
+    return response;
+  }
+
+  private async getResponseWithRetries(params: URLSearchParams): Promise<unknown> {
+    for (let attempt = 1; ; attempt++) {
+      await delay(this.nextRequestTime - Date.now());
+      this.nextRequestTime = Date.now() + this.options.minIntervalMilliseconds;
+      try {
+        return await this.client.getResponse(params);
+      } catch (err) {
+        if (attempt >= this.options.maxAttempts) {
+          throw err;
+        }
+
+        const retryDelay = this.options.retryDelayMilliseconds * Math.pow(2, attempt - 1);
+        this.nextRequestTime = Math.max(this.nextRequestTime, Date.now() + retryDelay);
+      }
+    }
+  }
+}
+
+/**
+ * Returns previously captured responses, for use offline and in tests.
+ */
+export class LocalHorizonsClient implements HorizonsClient {
+  constructor(private readonly responses: { [requestKey: string]: unknown }) {}
+
+  public async getResponse(params: URLSearchParams): Promise<unknown> {
+    const key = getHorizonsRequestKey(params);
+    if (!(key in this.responses)) {
+      throw new Error(`No local Horizons response for ${key}`);
+    }
+
+    return this.responses[key];
+  }
+}
+
+/**
+ * Gets a key identifying the query, independent of the order of its parameters.
+ */
+export function getHorizonsRequestKey(params: URLSearchParams): string {
+  const sortedParams = new URLSearchParams(params);
+  sortedParams.sort();
+  return sortedParams.toString();
+}
+
+/**
+ * Gets the client options from the page's query string, so that a different server or no proxy can be used
+ * (e.g. `?horizonsUrl=http://localhost:8080/api/horizons.api&horizonsProxy=none`).
+ */
+export function getHttpHorizonsClientOptions(search: URLSearchParams): HttpHorizonsClientOptions {
+  const proxyUrl = search.get("horizonsProxy");
+  return {
+    baseUrl: search.get("horizonsUrl") || defaultHttpHorizonsClientOptions.baseUrl,
+    proxyUrl: proxyUrl === null ? defaultHttpHorizonsClientOptions.proxyUrl : proxyUrl === "none" ? null : proxyUrl,
+  };
+}
+
+function delay(milliseconds: number): Promise<void> {
+  return milliseconds > 0 ? new Promise((resolve) => setTimeout(resolve, milliseconds)) : Promise.resolve();
+}
@@ -1,5 +1,6 @@
 import { maxByProperty } from "./common/iteration";
-import { getAstronomicalTime, julianDaysToDate } from "./time";
+import type { HorizonsClient } from "./horizons-client";
+import { getAstronomicalTime, tdbJulianDaysToDate } from "./time";
 
 export type HorizonsParams = {
   date: Date;
@@ -16,47 +17,126 @@ export type HorizonsResultRecord = {
   rangeRate: number;
 };
 
-export async function getMinimumRangeFromHorizons(options: HorizonsParams): Promise<HorizonsResultRecord | null> {
-  const plusMinusSeconds = options.timeWindowSeconds / 2;
-  const oneSecondInDays = 1 / (24 * 60 * 60);
-  const plusMinusDays = plusMinusSeconds * oneSecondInDays;
-  const time = getAstronomicalTime(options.date);
-  const startTime = time.julianDays - plusMinusDays;
-  const stopTime = time.julianDays + plusMinusDays;
+// Apparent positions are "airless" (without refraction), but include light-time and aberration.
+export type HorizonsObserverRecord = {
+  date: Date;
+  // Right ascension and declination relative to the true equator and equinox of date (degrees).
+  rightAscension: number;
+  declination: number;
+  // Azimuth measured clockwise from North, and elevation above the horizon (degrees).
+  azimuth: number;
+  elevation: number;
+  // Fraction of the Moon's disk that is lit (0 to 1).
+  illuminatedFraction: number;
+  // Apparent diameter of the Moon's disk (arcseconds).
+  angularDiameter: number;
+  // Distance (km) and rate of change of distance (km/s) from the observer.
+  range: number;
+  rangeRate: number;
+};
+
+const monthAbbreviations = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+export async function getMinimumRangeFromHorizons(
+  client: HorizonsClient,
+  options: HorizonsParams
+): Promise<HorizonsResultRecord | null> {
+  const responseData = await client.getResponse(getSiteVectorParams(options));
+  const records = parseResponse(responseData);
+
+  return getMinimumRangeRecord(records);
+}
+
+export async function getObserverTableFromHorizons(
+  client: HorizonsClient,
+  options: HorizonsParams
+): Promise<HorizonsObserverRecord[]> {
+  const responseData = await client.getResponse(getSiteObserverParams(options));
+  return parseObserverResponse(responseData);
+}
+
+/**
+ * Gets the query for the Moon's position relative to a site on the Earth's surface.
+ */
+export function getSiteVectorParams(options: HorizonsParams): URLSearchParams {
+  const params = getVectorParams(options.date, options.timeWindowSeconds, options.sampleCount, "'coord@399'");
+  params.append("SITE_COORD", getSiteCoord(options));
+  return params;
+}
+
+/**
+ * Gets the query for what an observer at a site on the Earth's surface would see of the Moon: apparent RA/Dec (2),
+ * azimuth and elevation (4), illuminated fraction (10), angular diameter (13) and range (20).
+ */
+export function getSiteObserverParams(options: HorizonsParams): URLSearchParams {
+  // Observer table times are UT.
+  const { startJulianDays, stopJulianDays } = getJulianDaysWindow(
+    getAstronomicalTime(options.date).julianDays,
+    options.timeWindowSeconds
+  );
 
   const params = new URLSearchParams();
   params.append("format", "json");
   params.append("COMMAND", "'301'");
   params.append("CENTER", "'coord@399'");
+  params.append("SITE_COORD", getSiteCoord(options));
   params.append("OBJ_DATA", "'NO'");
   params.append("MAKE_EPHEM", "'YES'");
-  params.append("EPHEM_TYPE", "'VECTORS'");
-  params.append("START_TIME", `'JD ${startTime.toString()}'`);
-  params.append("STOP_TIME", `'JD ${stopTime.toString()}'`);
-  params.append(
-    "SITE_COORD",
-    `'${options.longitudeDegrees.toFixed(4)},${options.latitudeDegrees.toFixed(4)},${(
-      options.altitudeInM / 1000
-    ).toFixed()}'`
-  );
-  params.append("STEP_SIZE", "'128'");
+  params.append("EPHEM_TYPE", "'OBSERVER'");
+  params.append("START_TIME", `'JD ${startJulianDays.toString()}'`);
+  params.append("STOP_TIME", `'JD ${stopJulianDays.toString()}'`);
+  params.append("STEP_SIZE", `'${options.sampleCount}'`);
   params.append("TIME_DIGITS", "'SECONDS'");
+  params.append("QUANTITIES", "'2,4,10,13,20'");
+  params.append("ANG_FORMAT", "'DEG'");
+  params.append("RANGE_UNITS", "'KM'");
+  params.append("CSV_FORMAT", "'YES'");
 
-  const uri = `https://ssd.jpl.nasa.gov/api/horizons.api?${params}`;
-  const request = new Request(`https://corsproxy.io/?url=${encodeURIComponent(uri)}`);
+  return params;
+}
 
-  const response = await fetch(request);
-  if (!response.ok) {
-    throw new Error(`Response status: ${response.status}`);
-  }
+function getSiteCoord(options: HorizonsParams): string {
+  const { longitudeDegrees, latitudeDegrees, altitudeInM } = options;
+  return `'${longitudeDegrees.toFixed(4)},${latitudeDegrees.toFixed(4)},${(altitudeInM / 1000).toFixed()}'`;
+}
 
-  const responseData = await response.json();
-  const records = parseResponse(responseData);
+/**
+ * Gets the query for the Moon's position relative to the Earth's center.
+ */
+export function getGeocentricVectorParams(date: Date, timeWindowSeconds: number, sampleCount: number): URLSearchParams {
+  return getVectorParams(date, timeWindowSeconds, sampleCount, "'500@399'");
+}
 
-  return getMinimumRangeRecord(records);
+function getVectorParams(date: Date, timeWindowSeconds: number, sampleCount: number, center: string): URLSearchParams {
+  // Vector table times are TDB.
+  const { startJulianDays, stopJulianDays } = getJulianDaysWindow(
+    getAstronomicalTime(date).tdb.julianDays,
+    timeWindowSeconds
+  );
+
+  const params = new URLSearchParams();
+  params.append("format", "json");
+  params.append("COMMAND", "'301'");
+  params.append("CENTER", center);
+  params.append("OBJ_DATA", "'NO'");
+  params.append("MAKE_EPHEM", "'YES'");
+  params.append("EPHEM_TYPE", "'VECTORS'");
+  params.append("START_TIME", `'JD ${startJulianDays.toString()}'`);
+  params.append("STOP_TIME", `'JD ${stopJulianDays.toString()}'`);
+  params.append("STEP_SIZE", `'${sampleCount}'`);
+  params.append("TIME_DIGITS", "'SECONDS'");
+
+  return params;
 }
 
-function parseResponse(responseData: any): HorizonsResultRecord[] {
+function getJulianDaysWindow(julianDays: number, timeWindowSeconds: number) {
+  const plusMinusSeconds = timeWindowSeconds / 2;
+  const oneSecondInDays = 1 / (24 * 60 * 60);
+  const plusMinusDays = plusMinusSeconds * oneSecondInDays;
+  return { startJulianDays: julianDays - plusMinusDays, stopJulianDays: julianDays + plusMinusDays };
+}
+
+export function parseResponse(responseData: any): HorizonsResultRecord[] {
   const responseText: string = responseData.result;
 
   // https://ssd.jpl.nasa.gov/horizons/manual.html#output
@@ -89,7 +169,7 @@ function createHorizonRecord(lines: string[]): HorizonsResultRecord {
   }
 
   const julianDate = parseFloat(timeMatch[0]);
-  const date = julianDaysToDate(julianDate);
+  const date = tdbJulianDaysToDate(julianDate);
 
   //  LT= 1.167733156222665E+00 RG= 3.500775931920906E+05 RR=-2.304642686552487E-02
   const rangeLine = lines[3];
@@ -113,7 +193,7 @@ function createHorizonRecord(lines: string[]): HorizonsResultRecord {
   };
 }
 
-function getMinimumRangeRecord(records: HorizonsResultRecord[]): HorizonsResultRecord | null {
+export function getMinimumRangeRecord(records: HorizonsResultRecord[]): HorizonsResultRecord | null {
   if (records.length === 0) {
     return null;
   }
@@ -137,3 +217,94 @@ function getMinimumRangeRecord(records: HorizonsResultRecord[]): HorizonsResultR
   // We've reached the end of the data and the range hasn't started increasing. No minimum here.
   return null;
 }
+
+export function parseObserverResponse(responseData: unknown): HorizonsObserverRecord[] {
+  const responseText = getResponseText(responseData);
+
+  // The CSV column names are on the line before the row of asterisks preceding the data.
+  const tableContent = responseText.match(/^([^\n]*)\n\*+\n\$\$SOE(.*?)\$\$EOE/ms);
+  if (tableContent === null) {
+    throw new Error("Unexpected output: ephemeris start/end tags not found");
+  }
+
+  const columnNames = splitCsvLine(tableContent[1]);
+  const getColumnIndex = (pattern: RegExp) => {
+    const index = columnNames.findIndex((name) => pattern.test(name));
+    if (index < 0) {
+      throw new Error(`Column ${pattern} not found in: ${tableContent[1]}`);
+    }
+
+    return index;
+  };
+
+  const columns = {
+    date: getColumnIndex(/^Date/),
+    rightAscension: getColumnIndex(/^R\.A\./),
+    declination: getColumnIndex(/^DEC/),
+    azimuth: getColumnIndex(/^Azi/),
+    elevation: getColumnIndex(/^Elev/),
+    illumination: getColumnIndex(/^Illu/),
+    angularDiameter: getColumnIndex(/^Ang-diam/),
+    range: getColumnIndex(/^delta/),
+    rangeRate: getColumnIndex(/^deldot/),
+  };
+
+  const lines = tableContent[2].trim().split("\n");
+  return lines.map((line) => {
+    const values = splitCsvLine(line);
+    const getNumber = (index: number) => {
+      const value = parseFloat(values[index]);
+      if (isNaN(value)) {
+        throw new Error(`Unexpected value in column ${columnNames[index]}. Line: ${line}`);
+      }
+
+      return value;
+    };
+
+    return {
+      date: parseHorizonsUtcDate(values[columns.date]),
+      rightAscension: getNumber(columns.rightAscension),
+      declination: getNumber(columns.declination),
+      azimuth: getNumber(columns.azimuth),
+      elevation: getNumber(columns.elevation),
+      illuminatedFraction: getNumber(columns.illumination) / 100,
+      angularDiameter: getNumber(columns.angularDiameter),
+      range: getNumber(columns.range),
+      rangeRate: getNumber(columns.rangeRate),
+    };
+  });
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(",").map((value) => value.trim());
+}
+
+/**
+ * Gets the output text from a Horizons API response, which has an error message instead if the request failed.
+ */
+function getResponseText(responseData: unknown): string {
+  const { result, error } = (typeof responseData === "object" && responseData !== null ? responseData : {}) as {
+    result?: unknown;
+    error?: unknown;
+  };
+
+  if (typeof result !== "string") {
+    const message = typeof error === "string" ? error : "no result text";
+    throw new Error(`Unexpected Horizons response: ${message}`);
+  }
+
+  return result;
+}
+
+function parseHorizonsUtcDate(text: string): Date {
+  // 2025-Jan-10 21:17:34.000
+  const match = text.match(/^(\d+)-([A-Za-z]{3})-(\d+) (\d+):(\d+)(?::(\d+(?:\.\d*)?))?$/);
+  const monthIndex = match !== null ? monthAbbreviations.indexOf(match[2]) : -1;
+  if (match === null || monthIndex < 0) {
+    throw new Error(`Unexpected date format: ${text}`);
+  }
+
+  const [, year, , day, hours, minutes, seconds] = match;
+  const wholeSeconds = Date.UTC(parseInt(year), monthIndex, parseInt(day), parseInt(hours), parseInt(minutes));
+  return new Date(wholeSeconds + parseFloat(seconds || "0") * 1000);
+}
@@ -1,5 +1,7 @@
 import { createCombinedCanvas, createDivInRelativeContainer, getElementByIdOrError } from "./common/html-utils";
-import { Ephemeris, SeriesMetadata, SeriesType } from "./ephemeris";
+import { Ephemeris } from "./ephemeris";
+import { loadEphemeris } from "./ephemeris-loader";
+import { EphemerisWorkerClient } from "./ephemeris-worker-client";
 import type { State } from "./state-types";
 import { getWebGLContext, MultiViewContext } from "./webgl/context";
 import { MultiSceneDrawer } from "./webgl/multi-scene-drawer";
@@ -10,16 +12,37 @@ import { run as runSuperPerigeeView } from "./views/super-perigee-view";
 import { run as runEarthView } from "./views/earth-view";
 import { run as runProximityMapView } from "./views/proximity-map-view";
 import { run as runSummaryView } from "./views/summary-view";
-import { DelayedProperty, NotifiableProperty } from "./common/state-properties";
+import { run as runSolarEclipseView } from "./views/solar-eclipse-view";
+import { run as runEphemerisView } from "./views/ephemeris-view";
+import { run as runPerigeeExportView } from "./views/perigee-export-view";
+import { run as runSavedPointsFileView } from "./views/saved-points-file-view";
+import { NotifiableProperty } from "./common/state-properties";
+import { restoreAndSyncDeepLink } from "./deep-link";
 import { graphicLine, graphicRect, graphicSquare } from "./styles/graphics.module.css";
 import { hidden } from "./styles/site.module.css";
-import { getIndexedDb, getSavedPoints, getSavedTldr, readEphemeris, saveTldr, storeEphemeris } from "./storage";
-import { DatePosition } from "./calculations";
+import { getIndexedDb, getSavedTldr, readSavedPoints, saveTldr, storeSavedPoints } from "./storage";
+import { emptyLunarEvents } from "./lunar-events";
+import { clampTimeRange, getEphemerisTimeRange, isWithinTimeRange } from "./time-range";
 
 document.addEventListener("DOMContentLoaded", function () {
   // Load initial data from local storage
   state.tldrView.setValue(getSavedTldr());
-  state.savedPoints.setValue(getSavedPoints());
+  loadAndStoreSavedPoints();
+
+  // Before anything is calculated for the initial time range, which the link may change.
+  restoreAndSyncDeepLink(state);
+
+  // The initial range may not be covered by a user-supplied ephemeris.
+  state.ephPromise.then((ephemeris) => {
+    const bounds = getEphemerisTimeRange(ephemeris);
+    const timeRange = state.timeRange.getValue();
+    if (!isWithinTimeRange(timeRange, bounds)) {
+      state.timeRange.setValue(clampTimeRange(timeRange, bounds));
+    }
+  });
+
+  state.timeRange.subscribe(updateLunarEvents);
+  updateLunarEvents();
 
   const tldrCheckbox = getElementByIdOrError<HTMLInputElement>("tldr-checkbox");
   tldrCheckbox.checked = state.tldrView.getValue();
@@ -37,6 +60,7 @@ document.addEventListener("DOMContentLoaded", function () {
   state.selectedPerigee.subscribe(() => showHideElements(elementsByView));
   state.proximityShapeData.subscribe(() => showHideElements(elementsByView));
   state.terrainLocationData.subscribe(() => showHideElements(elementsByView));
+  state.savedPoints.subscribe(() => showHideElements(elementsByView));
   showHideElements(elementsByView);
 
   const newElemViewLookup: ElementFunctionLookup = {
@@ -52,7 +76,11 @@ document.addEventListener("DOMContentLoaded", function () {
   };
 
   const existingElemViewLookup: ElementFunctionLookup = {
+    "ephemeris-view": { run: runEphemerisView, classList: [] },
+    "perigee-export-view": { run: runPerigeeExportView, classList: [] },
+    "solar-eclipse-view": { run: runSolarEclipseView, classList: [] },
     "summary-view": { run: runSummaryView, classList: [] },
+    "saved-points-file-view": { run: runSavedPointsFileView, classList: [] },
   };
 
   Object.keys(newElemViewLookup).forEach((containerId) => {
@@ -75,32 +103,48 @@ document.addEventListener("DOMContentLoaded", function () {
   });
 });
 
-async function getEphemeris(): Promise<Ephemeris> {
-  const db = await getIndexedDb();
-  if (db === null) {
-    const response = await fetchEphemeris();
-    const buffer = await response.arrayBuffer();
-    return new Ephemeris(new DataView(buffer), ephemerisMetadata, ephemerisStartDate);
+async function updateLunarEvents() {
+  const timeRange = state.timeRange.getValue();
+  try {
+    const lunarEvents = await state.ephemerisWorker.getLunarEvents(timeRange);
+
+    // Ignore the result if the range has changed while it was being calculated.
+    if (state.timeRange.getValue() === timeRange) {
+      state.lunarEvents.setValue(lunarEvents);
+    }
+  } catch (err) {
+    // Only report the error for the current range, since a newer request is already on its way.
+    if (state.timeRange.getValue() === timeRange) {
+      alert(`Unable to calculate perigees and eclipses: ${err}`);
+    }
   }
+}
 
-  let ephemerisBlob = await readEphemeris(db);
-  if (ephemerisBlob === null) {
-    const response = await fetchEphemeris();
-    ephemerisBlob = await response.blob();
-    await storeEphemeris(db, ephemerisBlob);
+/**
+ * Reads the saved points from the database, then stores them whenever they change. If they can't be read, changes
+ * aren't stored, so that the points in the database aren't lost.
+ */
+async function loadAndStoreSavedPoints() {
+  const db = await getIndexedDb();
+  if (db === null) {
+    alert("Browser storage is unavailable (try closing other tabs with this page), so locations can't be saved.");
+    return;
   }
 
-  const buffer = await ephemerisBlob.arrayBuffer();
-  return new Ephemeris(new DataView(buffer), ephemerisMetadata, ephemerisStartDate);
-}
-
-async function fetchEphemeris(): Promise<Response> {
-  const response = await fetch("./resources/ephemeris.dat");
-  if (!response.ok) {
-    throw new Error(`Failed to fetch ephemeris data: ${response.status}`);
+  try {
+    state.savedPoints.setValue(await readSavedPoints(db));
+  } catch (err) {
+    alert(`Unable to read saved locations, so changes to them won't be saved: ${err}`);
+    return;
   }
 
-  return response;
+  state.savedPoints.subscribe(async (points) => {
+    try {
+      await storeSavedPoints(db, points);
+    } catch (err) {
+      alert(`Unable to save locations: ${err}`);
+    }
+  });
 }
 
 const nowDate = new Date();
@@ -109,16 +153,19 @@ const initialEndDate = new Date(Date.UTC(nowDate.getUTCFullYear() + 25, nowDate.
 
 const state: State = {
   tldrView: new NotifiableProperty<boolean>(false),
-  ephPromise: getEphemeris(),
+  ephPromise: loadEphemeris(),
+  ephemerisWorker: new EphemerisWorkerClient(new Worker("./ephemeris-worker.js")),
   timeRange: new NotifiableProperty({
     startDate: initialStartDate,
     endDate: initialEndDate,
   }),
-  datePositions: new DelayedProperty<DatePosition[]>(),
-  perigees: new NotifiableProperty([]),
+  lunarEvents: new NotifiableProperty(emptyLunarEvents),
   selectedPerigee: new NotifiableProperty(null),
   proximityShapeData: new NotifiableProperty(null),
   terrainLocationData: new NotifiableProperty(null),
+  requestedLocation: new NotifiableProperty(null),
+  earthCamera: new NotifiableProperty(null),
+  proximityMapCamera: new NotifiableProperty(null),
   savedPoints: new NotifiableProperty([]),
 };
 
@@ -177,40 +224,3 @@ function showHideElements(elementsByView: ElementsByView) {
 
   allElems.forEach((elem) => (hiddenElems.has(elem) ? elem.classList.add(hidden) : elem.classList.remove(hidden)));
 }
-
-const ephemerisStartDate = 2451536.5; // 1999-12-24T00:00:00.000Z
-const ephemerisMetadata = new Map<SeriesType, SeriesMetadata>([
-  [
-    SeriesType.SsbToEmb,
-    {
-      seriesType: 0,
-      intervalDurationDays: 16,
-      propertyCount: 3,
-      coeffCount: 13,
-      offset: 0,
-      sizeInBytes: 712608,
-    },
-  ],
-  [
-    SeriesType.EarthToMoon,
-    {
-      seriesType: 1,
-      intervalDurationDays: 4,
-      propertyCount: 3,
-      coeffCount: 13,
-      offset: 712608,
-      sizeInBytes: 2850432,
-    },
-  ],
-  [
-    SeriesType.SsbToSun,
-    {
-      seriesType: 2,
-      intervalDurationDays: 16,
-      propertyCount: 3,
-      coeffCount: 4,
-      offset: 3563040,
-      sizeInBytes: 219264,
-    },
-  ],
-]);
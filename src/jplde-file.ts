@@ -0,0 +1,153 @@
+import { BinaryEphemeris, Ephemeris, MetadataMap, SeriesMetadata, SeriesType } from "./ephemeris";
+
+/*
+Reads the JPL Development Ephemeris binary files (little-endian, as published in
+https://ssd.jpl.nasa.gov/ftp/eph/planets/Linux/), so that any DE4xx file can be used in place of our own subset.
+See https://www.celestialprogramming.com/jpl-ephemeris-format/jpl-ephemeris-format.html for the layout.
+*/
+
+// Number of properties of each of the series in the files (see build/jplde.ts for what they are).
+const seriesPropertyCounts = [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 3, 3, 1];
+
+// Where the series we use are in the coefficient pointer table (GROUP 1050).
+const seriesIndexes: [seriesType: SeriesType, seriesIndex: number][] = [
+  [SeriesType.SsbToEmb, 2],
+  [SeriesType.EarthToMoon, 9],
+  [SeriesType.SsbToSun, 10],
+];
+
+const titleLength = 84;
+const constantNameLength = 6;
+const headerConstantNameCount = 400;
+
+export type JplDeHeader = {
+  title: string;
+  deNumber: number;
+  jdStart: number;
+  jdEnd: number;
+  jdStep: number;
+  emrat: number;
+  // [start offset in block (1-based, in doubles), coeff count per property, subinterval count] for each series.
+  coeffPtr: [number, number, number][];
+  blockSizeInBytes: number;
+};
+
+export function readJplDeHeader(dataView: DataView): JplDeHeader {
+  const minHeaderSize = 2856 + 24;
+  if (dataView.byteLength < minHeaderSize) {
+    throw new Error(`File is too small to be a JPL DE file (${dataView.byteLength} bytes).`);
+  }
+
+  const title = readString(dataView, 0, titleLength).trim();
+  let offset = titleLength * 3 + headerConstantNameCount * constantNameLength;
+  const jdStart = dataView.getFloat64(offset, true);
+  const jdEnd = dataView.getFloat64(offset + 8, true);
+  const jdStep = dataView.getFloat64(offset + 16, true);
+  const constantCount = dataView.getUint32(offset + 24, true);
+  const emrat = dataView.getFloat64(offset + 36, true);
+  offset += 44;
+
+  const coeffPtr: [number, number, number][] = [];
+  const readCoeffPtr = () => {
+    coeffPtr.push([
+      dataView.getUint32(offset, true),
+      dataView.getUint32(offset + 4, true),
+      dataView.getUint32(offset + 8, true),
+    ]);
+    offset += 12;
+  };
+
+  // Pointers for the first 12 series, then the DE number, then the lunar libration pointer.
+  for (let i = 0; i < 12; i++) {
+    readCoeffPtr();
+  }
+
+  const deNumber = dataView.getUint32(offset, true);
+  offset += 4;
+  readCoeffPtr();
+
+  // The names of any constants beyond the first 400 come before the remaining pointers.
+  offset += Math.max(0, constantCount - headerConstantNameCount) * constantNameLength;
+  readCoeffPtr();
+  readCoeffPtr();
+
+  if (!(jdStep > 0 && jdEnd > jdStart) || constantCount > 10000) {
+    throw new Error("File is not a little-endian JPL DE file (Linux binary).");
+  }
+
+  return {
+    title,
+    deNumber,
+    jdStart,
+    jdEnd,
+    jdStep,
+    emrat,
+    coeffPtr,
+    blockSizeInBytes: getBlockSizeInBytes(coeffPtr),
+  };
+}
+
+/**
+ * Creates an ephemeris that reads the coefficients directly from a JPL DE file.
+ */
+export function createJplDeEphemeris(dataView: DataView): Ephemeris {
+  const header = readJplDeHeader(dataView);
+  const { blockSizeInBytes } = header;
+
+  // The first two records hold the header and constants.
+  const dataOffset = blockSizeInBytes * 2;
+  const blockCount = Math.min(
+    Math.floor((dataView.byteLength - dataOffset) / blockSizeInBytes),
+    Math.round((header.jdEnd - header.jdStart) / header.jdStep)
+  );
+
+  if (blockCount <= 0) {
+    throw new Error(`JPL DE file contains no data (${dataView.byteLength} bytes).`);
+  }
+
+  // Each block starts with the Julian dates it covers.
+  const firstBlockStart = dataView.getFloat64(dataOffset, true);
+  if (firstBlockStart !== header.jdStart) {
+    throw new Error(`JPL DE file data starts at ${firstBlockStart}, but its header specifies ${header.jdStart}.`);
+  }
+
+  const metadataMap: MetadataMap = new Map<SeriesType, SeriesMetadata>();
+  for (const [seriesType, seriesIndex] of seriesIndexes) {
+    const [startOffset, coeffCount, subintervalCount] = header.coeffPtr[seriesIndex];
+    if (startOffset === 0 || coeffCount === 0 || subintervalCount === 0) {
+      throw new Error(`JPL DE file does not contain series ${seriesIndex} (${SeriesType[seriesType]}).`);
+    }
+
+    metadataMap.set(seriesType, {
+      seriesType,
+      offset: dataOffset + (startOffset - 1) * 8,
+      sizeInBytes: blockCount * blockSizeInBytes,
+      intervalDurationDays: header.jdStep / subintervalCount,
+      propertyCount: seriesPropertyCounts[seriesIndex],
+      coeffCount,
+      intervalsPerBlock: subintervalCount,
+      blockSizeInBytes,
+    });
+  }
+
+  return new BinaryEphemeris(dataView, metadataMap, header.jdStart, header.emrat);
+}
+
+function getBlockSizeInBytes(coeffPtr: [number, number, number][]): number {
+  // Blocks end with the coefficients of the last series they contain.
+  const doubleCount = coeffPtr.reduce(
+    (count, [startOffset, coeffCount, subintervalCount], i) =>
+      Math.max(count, startOffset + coeffCount * subintervalCount * seriesPropertyCounts[i] - 1),
+    0
+  );
+
+  if (doubleCount <= 2) {
+    throw new Error("JPL DE file header contains no coefficient offsets.");
+  }
+
+  return doubleCount * 8;
+}
+
+function readString(dataView: DataView, offset: number, length: number): string {
+  return String.fromCharCode(...new Uint8Array(dataView.buffer, dataView.byteOffset + offset, length));
+}
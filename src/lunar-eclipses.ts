@@ -0,0 +1,129 @@
+import { EclipseMagnitude, getDatePosition, getDatePositionAngles, getLunarEclipseMaginutude } from "./calculations";
+import { maxByProperty, seqStep } from "./common/iteration";
+import { getPeaks } from "./common/peak-detection";
+import { Ephemeris } from "./ephemeris";
+import { LunarEclipse, LunarEclipseType, Syzygy } from "./state-types";
+import { getAstronomicalTime } from "./time";
+
+// Greatest eclipse is within an hour or so of the full moon, and the penumbral phase lasts
+// at most about three hours either side of it.
+const greatestSearchRangeMilliseconds = 1000 * 60 * 60 * 4;
+const greatestSearchStepMilliseconds = 1000 * 60 * 30;
+const contactSearchRangeMilliseconds = 1000 * 60 * 60 * 4;
+const contactSearchStepMilliseconds = 1000 * 60 * 15;
+const peakRangeThresholdMilliseconds = 1000 * 30;
+const millisecondsPerMinute = 1000 * 60;
+
+type DateMagnitude = {
+  date: Date;
+  magnitude: EclipseMagnitude;
+};
+
+/**
+ * Finds the instant of greatest eclipse around a full moon and the contact times either side of it,
+ * or returns null if the Moon misses the Earth's penumbra.
+ */
+export function getLunarEclipse(ephemeris: Ephemeris, fullMoon: Syzygy): LunarEclipse | null {
+  const fullMoonTime = fullMoon.date.getTime();
+  const samples = seqStep(
+    fullMoonTime - greatestSearchRangeMilliseconds,
+    fullMoonTime + greatestSearchRangeMilliseconds,
+    greatestSearchStepMilliseconds
+  ).map(unixTimeToDateMagnitude);
+
+  const peaks = getPeaks(
+    samples,
+    (s) => s.date.getTime(),
+    (s) => s.magnitude.penumbral,
+    unixTimeToDateMagnitude,
+    peakRangeThresholdMilliseconds
+  );
+
+  if (peaks.length === 0) {
+    return null;
+  }
+
+  const greatest = maxByProperty(peaks, (p) => p.quality).item.peak;
+  const { date, magnitude } = greatest;
+  if (magnitude.penumbral <= 0) {
+    return null;
+  }
+
+  const eclipseType =
+    magnitude.umbral >= 1
+      ? LunarEclipseType.Total
+      : magnitude.umbral > 0
+      ? LunarEclipseType.Partial
+      : LunarEclipseType.Penumbral;
+
+  const contacts = {
+    p1: findContact(-1, (m) => m.penumbral, 0)!,
+    u1: findContact(-1, (m) => m.umbral, 0),
+    u2: findContact(-1, (m) => m.umbral, 1),
+    u3: findContact(1, (m) => m.umbral, 1),
+    u4: findContact(1, (m) => m.umbral, 0),
+    p4: findContact(1, (m) => m.penumbral, 0)!,
+  };
+
+  const totalityMinutes =
+    contacts.u2 !== null && contacts.u3 !== null
+      ? (contacts.u3.getTime() - contacts.u2.getTime()) / millisecondsPerMinute
+      : 0;
+
+  return { date, eclipseType, contacts, magnitude, totalityMinutes };
+
+  /**
+   * Finds the time before (direction -1) or after (direction 1) greatest eclipse at which the magnitude
+   * falls to the contact value, by refining the peak of closeness to that value.
+   */
+  function findContact(
+    direction: number,
+    getMagnitude: (magnitude: EclipseMagnitude) => number,
+    contactMagnitude: number
+  ): Date | null {
+    if (getMagnitude(magnitude) < contactMagnitude) {
+      return null;
+    }
+
+    const greatestTime = date.getTime();
+    const searchStartTime = direction < 0 ? greatestTime - contactSearchRangeMilliseconds : greatestTime;
+    const contactSamples = seqStep(
+      searchStartTime,
+      searchStartTime + contactSearchRangeMilliseconds,
+      contactSearchStepMilliseconds
+    ).map(unixTimeToDateMagnitude);
+
+    const contactPeaks = getPeaks(
+      contactSamples,
+      (s) => s.date.getTime(),
+      (s) => -Math.abs(getMagnitude(s.magnitude) - contactMagnitude),
+      unixTimeToDateMagnitude,
+      peakRangeThresholdMilliseconds
+    );
+
+    if (contactPeaks.length === 0) {
+      throw new Error(
+        `No lunar eclipse contact found within ${contactSearchRangeMilliseconds}ms of ${date.toISOString()}`
+      );
+    }
+
+    return maxByProperty(contactPeaks, (p) => p.quality).item.peak.date;
+  }
+
+  function unixTimeToDateMagnitude(unixTime: number): DateMagnitude {
+    const date = new Date(unixTime);
+    const datePositionAngles = getDatePositionAngles(getDatePosition(ephemeris, getAstronomicalTime(date)));
+    return { date, magnitude: getLunarEclipseMaginutude(datePositionAngles) };
+  }
+}
+
+export function getLunarEclipseTypeName(eclipseType: LunarEclipseType): string {
+  switch (eclipseType) {
+    case LunarEclipseType.Penumbral:
+      return "Penumbral";
+    case LunarEclipseType.Partial:
+      return "Partial";
+    case LunarEclipseType.Total:
+      return "Total";
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  DatePosition,
+  DatePositionAngles,
+  getDatePosition,
+  getDatePositionAngles,
+  getDatePositions,
+  getLunarEclipseMaginutude,
+} from "./calculations";
+import { maxByProperty } from "./common/iteration";
+import { getPeaks, getUnrefinedPeaks } from "./common/peak-detection";
+import { Ephemeris } from "./ephemeris";
+import { getLunarEclipse } from "./lunar-eclipses";
+import { getSolarEclipse } from "./solar-eclipses";
+import { Apogee, LunarEclipse, Perigee, SolarEclipse, Syzygy, SyzygyType, TimeRange } from "./state-types";
+import { getAstronomicalTime } from "./time";
+
+export type LunarEvents = {
+  perigees: Perigee[];
+  apogees: Apogee[];
+  fullMoons: Syzygy[];
+  newMoons: Syzygy[];
+  solarEclipses: SolarEclipse[];
+  lunarEclipses: LunarEclipse[];
+};
+
+export const emptyLunarEvents: LunarEvents = {
+  perigees: [],
+  apogees: [],
+  fullMoons: [],
+  newMoons: [],
+  solarEclipses: [],
+  lunarEclipses: [],
+};
+
+const peakRangeThresholdSeconds = 1000 * 30;
+const millisecondsPerHour = 1000 * 60 * 60;
+
+// Eclipses are shown alongside perigees within two days of them, so that e.g. the perigee of 2024-04-07
+// is associated with the following day's total solar eclipse.
+const eclipseMaxHours = 48;
+
+/**
+ * Finds the perigees, apogees, full moons, new moons and eclipses within the time range, sampling
+ * the ephemeris daily and refining each peak to within 30 seconds.
+ */
+export function computeLunarEvents(ephemeris: Ephemeris, timeRange: TimeRange): LunarEvents {
+  const { startDate, endDate } = timeRange;
+  const datePositions = getDatePositions(ephemeris, startDate, endDate).filter((dp) => dp.date < endDate);
+  return getLunarEvents(ephemeris, datePositions);
+}
+
+export function getLunarEvents(ephemeris: Ephemeris, datePositions: DatePosition[]): LunarEvents {
+  const datePositionAngles = datePositions.map(getDatePositionAngles);
+
+  const fullMoons = getPeaks(
+    datePositionAngles,
+    (dpa) => dpa.date.getTime(),
+    (dpa) => dpa.angleBetweenMoonAndSun,
+    unixTimeToDatePositionAngles,
+    peakRangeThresholdSeconds
+  ).map((p) => asSyzygy(p.peak, SyzygyType.FullMoon));
+
+  const newMoons = getPeaks(
+    datePositionAngles,
+    (dpa) => dpa.date.getTime(),
+    (dpa) => -dpa.angleBetweenMoonAndSun,
+    unixTimeToDatePositionAngles,
+    peakRangeThresholdSeconds
+  ).map((p) => asSyzygy(p.peak, SyzygyType.NewMoon));
+
+  const solarEclipses = newMoons
+    .map((newMoon) => getSolarEclipse(ephemeris, newMoon))
+    .filter((eclipse) => eclipse !== null);
+
+  const lunarEclipses = fullMoons
+    .map((fullMoon) => getLunarEclipse(ephemeris, fullMoon))
+    .filter((eclipse) => eclipse !== null);
+
+  const fullMoonDates = fullMoons.map((s) => s.date);
+  const newMoonDates = newMoons.map((s) => s.date);
+
+  // Get the max/min moon distance by year for supermoon and micromoon calculations.
+  const yearDatePositionAngles = new Map<number, DatePositionAngles[]>();
+  datePositionAngles.forEach((dp) => {
+    const year = dp.date.getFullYear();
+    const dps = yearDatePositionAngles.get(year);
+    if (dps === undefined) {
+      yearDatePositionAngles.set(year, [dp]);
+    } else {
+      dps.push(dp);
+    }
+  });
+
+  const yearMaxMinDistance = new Map<number, { max: number; min: number }>();
+  yearDatePositionAngles.forEach((dps, year) => {
+    yearMaxMinDistance.set(year, {
+      max: maxByProperty(dps, (dd) => dd.moonDistance).value,
+      min: -maxByProperty(dps, (dd) => -dd.moonDistance).value,
+    });
+  });
+
+  const perigees = getPeaks(
+    datePositionAngles,
+    (dpa) => dpa.date.getTime(),
+    (dpa) => -dpa.moonDistance,
+    unixTimeToDatePositionAngles,
+    peakRangeThresholdSeconds
+  ).map((p) => asPerigee(p.peak));
+
+  const apogees = getPeaks(
+    datePositionAngles,
+    (dpa) => dpa.date.getTime(),
+    (dpa) => dpa.moonDistance,
+    unixTimeToDatePositionAngles,
+    peakRangeThresholdSeconds
+  ).map((p) => asApogee(p.peak));
+
+  return { perigees, apogees, fullMoons, newMoons, solarEclipses, lunarEclipses };
+
+  function unixTimeToDatePositionAngles(unixTime: number): DatePositionAngles {
+    const date = new Date(unixTime);
+    const datePosition = getDatePosition(ephemeris, getAstronomicalTime(date));
+    return getDatePositionAngles(datePosition);
+  }
+
+  function asPerigee(datePositionAngles: DatePositionAngles): Perigee {
+    const hoursFromFullMoon = getHoursFromNearest(fullMoonDates, datePositionAngles.date);
+    const hoursFromNewMoon = getHoursFromNearest(newMoonDates, datePositionAngles.date);
+
+    const maxMinDistance = yearMaxMinDistance.get(datePositionAngles.date.getFullYear())!;
+    const superMoonThreshold = (maxMinDistance.max - maxMinDistance.min) * 0.1 + maxMinDistance.min;
+    const isSuperMoon = isWithinDay(hoursFromFullMoon) && datePositionAngles.moonDistance < superMoonThreshold;
+    const isSuperNewMoon = isWithinDay(hoursFromNewMoon) && datePositionAngles.moonDistance < superMoonThreshold;
+
+    const lunarEclipseMagnitude = getLunarEclipseMaginutude(datePositionAngles);
+    const isNearEclipse = (eclipse: { date: Date }) =>
+      Math.abs(eclipse.date.getTime() - datePositionAngles.date.getTime()) < eclipseMaxHours * millisecondsPerHour;
+    const solarEclipse = solarEclipses.find(isNearEclipse) || null;
+    const lunarEclipse = lunarEclipses.find(isNearEclipse) || null;
+
+    return {
+      ...datePositionAngles,
+      hoursFromFullMoon,
+      hoursFromNewMoon,
+      isSuperMoon,
+      isSuperNewMoon,
+      lunarEclipseMagnitude,
+      solarEclipse,
+      lunarEclipse,
+    };
+  }
+
+  function asApogee(datePositionAngles: DatePositionAngles): Apogee {
+    const hoursFromFullMoon = getHoursFromNearest(fullMoonDates, datePositionAngles.date);
+    const hoursFromNewMoon = getHoursFromNearest(newMoonDates, datePositionAngles.date);
+
+    // Micro Moons mirror Super Moons: a full (or new) moon within 24 hours of an apogee that is in the
+    // furthest 10% of the year's distances.
+    const maxMinDistance = yearMaxMinDistance.get(datePositionAngles.date.getFullYear())!;
+    const microMoonThreshold = maxMinDistance.max - (maxMinDistance.max - maxMinDistance.min) * 0.1;
+    const isMicroMoon = isWithinDay(hoursFromFullMoon) && datePositionAngles.moonDistance > microMoonThreshold;
+    const isMicroNewMoon = isWithinDay(hoursFromNewMoon) && datePositionAngles.moonDistance > microMoonThreshold;
+
+    return {
+      ...datePositionAngles,
+      hoursFromFullMoon,
+      hoursFromNewMoon,
+      isMicroMoon,
+      isMicroNewMoon,
+    };
+  }
+}
+
+/**
+ * Gets the closest perigee of each cycle of perigee distances (these all coincide with
+ * Super Moons or Super New Moons).
+ */
+export function getSuperPerigees(perigees: Perigee[]): Perigee[] {
+  if (perigees.length <= 3) {
+    return perigees;
+  }
+
+  return getUnrefinedPeaks(
+    perigees,
+    (p) => p.date.getTime(),
+    (p) => -p.moonDistance
+  ).map((p) => p.peak);
+}
+
+function asSyzygy(datePositionAngles: DatePositionAngles, syzygyType: SyzygyType): Syzygy {
+  return { ...datePositionAngles, syzygyType };
+}
+
+function getHoursFromNearest(dates: Date[], date: Date): number | null {
+  // A short time range may not include a full or new moon.
+  if (dates.length === 0) {
+    return null;
+  }
+
+  const unixTime = date.getTime();
+  return -maxByProperty(dates, (d) => -Math.abs(d.getTime() - unixTime)).value / millisecondsPerHour;
+}
+
+function isWithinDay(hours: number | null): boolean {
+  return hours !== null && hours < 24;
+}
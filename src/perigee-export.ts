@@ -0,0 +1,180 @@
+import { getLunarEclipseTypeName } from "./lunar-eclipses";
+import { getSolarEclipseTypeName } from "./solar-eclipses";
+import type { Perigee, TimeRange } from "./state-types";
+
+/*
+Perigee lists for use outside the page: CSV and JSON for spreadsheets and scripts, and an iCalendar file with an
+event for each perigee, for adding to a calendar application.
+*/
+
+export type PerigeeExportFormat = "csv" | "json" | "ics";
+
+export type PerigeeExportRecord = {
+  date: string;
+  distanceKm: number;
+  hoursFromFullMoon: number | null;
+  hoursFromNewMoon: number | null;
+  isSuperMoon: boolean;
+  isSuperNewMoon: boolean;
+  // Closest perigee of its cycle of perigee distances, which coincides with a Super Moon or Super New Moon.
+  isSuperPerigee: boolean;
+  umbralEclipseMagnitude: number;
+  penumbralEclipseMagnitude: number;
+  solarEclipse: string | null;
+  lunarEclipse: string | null;
+};
+
+type PerigeeExportFile = {
+  fileExtension: string;
+  mimeType: string;
+  getContent: (records: PerigeeExportRecord[]) => string;
+};
+
+const exportFiles: { [format in PerigeeExportFormat]: PerigeeExportFile } = {
+  csv: { fileExtension: "csv", mimeType: "text/csv", getContent: getPerigeesCsv },
+  json: { fileExtension: "json", mimeType: "application/json", getContent: getPerigeesJson },
+  ics: { fileExtension: "ics", mimeType: "text/calendar", getContent: getPerigeesIcs },
+};
+
+// Distances and hours are calculated to much greater precision than is meaningful.
+const decimalPlaces = 3;
+
+export function getPerigeeExportRecords(
+  perigees: Perigee[],
+  superPerigees: Perigee[],
+  timeRange: TimeRange
+): PerigeeExportRecord[] {
+  const superPerigeeSet = new Set(superPerigees);
+  return perigees
+    .filter((p) => p.date >= timeRange.startDate && p.date < timeRange.endDate)
+    .map((p) => ({
+      date: p.date.toISOString(),
+      distanceKm: round(p.moonDistance),
+      hoursFromFullMoon: p.hoursFromFullMoon === null ? null : round(p.hoursFromFullMoon),
+      hoursFromNewMoon: p.hoursFromNewMoon === null ? null : round(p.hoursFromNewMoon),
+      isSuperMoon: p.isSuperMoon,
+      isSuperNewMoon: p.isSuperNewMoon,
+      isSuperPerigee: superPerigeeSet.has(p),
+      umbralEclipseMagnitude: round(p.lunarEclipseMagnitude.umbral),
+      penumbralEclipseMagnitude: round(p.lunarEclipseMagnitude.penumbral),
+      solarEclipse: p.solarEclipse && `${getSolarEclipseTypeName(p.solarEclipse.eclipseType)} solar eclipse`,
+      lunarEclipse: p.lunarEclipse && `${getLunarEclipseTypeName(p.lunarEclipse.eclipseType)} lunar eclipse`,
+    }));
+}
+
+export function getPerigeeExportFile(
+  format: PerigeeExportFormat,
+  records: PerigeeExportRecord[],
+  timeRange: TimeRange
+): File {
+  const { fileExtension, mimeType, getContent } = exportFiles[format];
+  const [start, end] = [timeRange.startDate, timeRange.endDate].map((d) => d.toISOString().substring(0, 10));
+  return new File([getContent(records)], `perigees-${start}-${end}.${fileExtension}`, { type: mimeType });
+}
+
+export function getPerigeesCsv(records: PerigeeExportRecord[]): string {
+  const columns: (keyof PerigeeExportRecord)[] = [
+    "date",
+    "distanceKm",
+    "hoursFromFullMoon",
+    "hoursFromNewMoon",
+    "isSuperMoon",
+    "isSuperNewMoon",
+    "isSuperPerigee",
+    "umbralEclipseMagnitude",
+    "penumbralEclipseMagnitude",
+    "solarEclipse",
+    "lunarEclipse",
+  ];
+
+  const rows = records.map((record) => columns.map((column) => formatCsvValue(record[column])));
+  return [columns, ...rows].map((row) => row.join(",")).join("\r\n") + "\r\n";
+}
+
+export function getPerigeesJson(records: PerigeeExportRecord[]): string {
+  return JSON.stringify(records, null, 2);
+}
+
+/**
+ * Gets an iCalendar (RFC 5545) file with an event at the time of each perigee.
+ */
+export function getPerigeesIcs(records: PerigeeExportRecord[]): string {
+  const timestamp = formatIcsDate(new Date().toISOString());
+  const events = records.flatMap((record) => [
+    "BEGIN:VEVENT",
+    // The same perigee gets the same ID in each export, so calendars can update rather than duplicate it.
+    `UID:perigee-${formatIcsDate(record.date)}@moon-proximity`,
+    `DTSTAMP:${timestamp}`,
+    `DTSTART:${formatIcsDate(record.date)}`,
+    `DTEND:${formatIcsDate(record.date)}`,
+    `SUMMARY:${escapeIcsText(getEventSummary(record))}`,
+    `DESCRIPTION:${escapeIcsText(getEventDescription(record))}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ]);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Moon Proximity//Perigees//EN",
+    "CALSCALE:GREGORIAN",
+    ...events,
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+function getEventSummary(record: PerigeeExportRecord): string {
+  const name = record.isSuperMoon ? "Super Moon perigee" : record.isSuperNewMoon ? "Super New Moon perigee" : "Perigee";
+  const eclipse = record.solarEclipse ?? record.lunarEclipse;
+  return eclipse ? `${name} (${eclipse})` : name;
+}
+
+function getEventDescription(record: PerigeeExportRecord): string {
+  const lines = [
+    `Distance from Earth: ${record.distanceKm.toFixed(0)} km`,
+    getHoursFromLine(record.hoursFromFullMoon, "full moon"),
+    getHoursFromLine(record.hoursFromNewMoon, "new moon"),
+  ];
+
+  if (record.isSuperPerigee) {
+    lines.push("Closest perigee of its cycle, at a Super Moon or Super New Moon");
+  }
+
+  return lines.filter((line) => line !== null).join("\n");
+}
+
+function getHoursFromLine(hours: number | null, eventName: string): string | null {
+  // There may be no full or new moon near a perigee at the ends of the time range.
+  return hours !== null ? `${hours.toFixed(1)} hours from ${eventName}` : null;
+}
+
+function formatCsvValue(value: string | number | boolean | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatIcsDate(isoDate: string): string {
+  // e.g. 2034-11-25T03:42:10.123Z -> 20341125T034210Z
+  return isoDate.replace(/[-:]/g, "").replace(/\.\d+Z$/, "Z");
+}
+
+function escapeIcsText(text: string): string {
+  return text.replace(/[\\;,]/g, (c) => `\\${c}`).replace(/\n/g, "\\n");
+}
+
+function foldIcsLine(line: string): string {
+  // Lines longer than 75 octets continue on the next line, which starts with a space.
+  const maxLength = 75;
+  const parts = [];
+  for (let i = 0; i < line.length; i += maxLength - 1) {
+    parts.push(line.substring(i, i + maxLength - 1));
+  }
+
+  return parts.join("\r\n ");
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(decimalPlaces));
+}
@@ -1,14 +1,13 @@
 import {
   getEarthAndMoonPositions,
+  getEarthFixedPosition,
   getEarthRadiusAtPosition,
   getEarthRotation,
   getLatLongPosition,
 } from "./calculations";
 import { maxByProperty } from "./common/iteration";
-import { compose4, makeTranslation4, transpose4 } from "./common/matrices";
 import { Vector3 } from "./common/numeric-types";
-import { normalize, scaleVector, subtractVectors } from "./common/vectors";
-import { applyTransformMatrix, getTransformSeriesMatrix } from "./common/xform";
+import { normalize, scaleVector } from "./common/vectors";
 import { Ephemeris } from "./ephemeris";
 import { AstronomicalTime, incrementTime } from "./time";
 
@@ -95,11 +94,11 @@ function getWorkingProximityPoints(
 function getWorkingProximityPoint(ephemeris: Ephemeris, time: AstronomicalTime): WorkingProximityPoint {
   const worldPositions = getEarthAndMoonPositions(ephemeris, time);
   const worldEarthRotation = getEarthRotation(time);
-  const localRotationMatrix = transpose4(getTransformSeriesMatrix(worldEarthRotation.transforms));
-  const localTranslationMatrix = makeTranslation4(...subtractVectors([0, 0, 0], worldPositions.earthPosition));
-  const localMatrix = compose4(localTranslationMatrix, localRotationMatrix);
-
-  const [localMoonPosition] = applyTransformMatrix(localMatrix, worldPositions.moonPosition);
+  const localMoonPosition = getEarthFixedPosition(
+    worldPositions.moonPosition,
+    worldPositions.earthPosition,
+    worldEarthRotation
+  );
 
   const earthToMoonUnit = normalize(localMoonPosition);
   const moonLatLongPosition = getLatLongPosition(localMoonPosition);
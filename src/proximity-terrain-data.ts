@@ -196,6 +196,25 @@ export class ProximityTerrainData {
     return { long, lat };
   }
 
+  /**
+   * Gets the map position of a location within the terrain, or null if the location is outside it.
+   */
+  public getMapPositionFromLatLong(long: number, lat: number): Vector2 | null {
+    const tile = this.rectangularTileLayout.groupedOrderedTiles.flat().find((tile) => {
+      const lonOffset = getLongitudeOffset(tile.startLon, long);
+      const latOffset = tile.startLat - lat;
+      return lonOffset < longitudeRadiansPerTile && latOffset >= 0 && latOffset < latitudeRadiansPerTile;
+    });
+
+    if (!tile) {
+      return null;
+    }
+
+    const tileX = (getLongitudeOffset(tile.startLon, long) / longitudeRadiansPerTile) * elevationTileDimensions.width;
+    const tileY = ((tile.startLat - lat) / latitudeRadiansPerTile) * elevationTileDimensions.height;
+    return this.mapTiledArea.getTargetPosition({ tile, position: [tileX, tileY] });
+  }
+
   public getElevation(position: PositionOnTile): number {
     const texture = this.getTextures(position.tile).elevations;
 
@@ -319,3 +338,9 @@ type SourceLongitudeValues = {
   width: number;
   height: number;
 };
+
+// Eastward angle from the start longitude, in [0, 2π).
+function getLongitudeOffset(startLon: number, long: number): number {
+  const offset = (long - startLon) % (Math.PI * 2);
+  return offset < 0 ? offset + Math.PI * 2 : offset;
+}
@@ -0,0 +1,469 @@
+import { splitByProperty } from "./common/iteration";
+import {
+  asStoredSavedPoint,
+  getSavedPointName,
+  isSavedHorizonsResult,
+  parseTags,
+  savedPointSchemaVersion,
+  upgradeSavedPoint,
+} from "./saved-points";
+import type { SavedPoint, TimeRange } from "./state-types";
+
+/*
+Saved points as files for mapping applications: a GeoJSON FeatureCollection, KML placemarks or GPX waypoints.
+Each point carries its elevation, distance to the Moon, ideal time and annotations, so it can be imported again. Only
+GeoJSON keeps the Horizons verification result; points imported from the other formats need verifying again.
+
+Backups are JSON files holding the points exactly as they're stored, for restoring all of them at once. They're
+restored as they were, so only their types are checked.
+
+Imported points at times outside the ephemeris are left out, since nothing can be calculated for them.
+*/
+
+export type SavedPointFileFormat = "geojson" | "kml" | "gpx";
+
+export type SavedPointImport = {
+  points: SavedPoint[];
+  // Entries in the file that aren't valid saved points.
+  invalidCount: number;
+  // Valid points at times outside the ephemeris.
+  outOfRangeCount: number;
+};
+
+export type SavedPointRestore = {
+  points: SavedPoint[];
+  // Entries in the backup that don't have the properties of a saved point.
+  invalidCount: number;
+};
+
+type ParsedSavedPoints = {
+  points: SavedPoint[];
+  invalidCount: number;
+};
+
+type SavedPointFile = {
+  fileExtension: string;
+  mimeType: string;
+  getContent: (points: SavedPoint[]) => string;
+  parse: (text: string) => ParsedSavedPoints;
+};
+
+// Parsed JSON values, whose properties are checked as they're read.
+type JsonObject = { [key: string]: unknown };
+
+// Properties of a point as read from a file, before validation.
+type PointCandidate = {
+  longitudeDegrees: unknown;
+  latitudeDegrees: unknown;
+  altitudeInM: unknown;
+  distanceToMoonInKm: unknown;
+  idealTime: unknown;
+  name: unknown;
+  notes: unknown;
+  tags: unknown;
+  perigeeTime: unknown;
+  horizonsResult?: unknown;
+};
+
+const savedPointFiles: { [format in SavedPointFileFormat]: SavedPointFile } = {
+  geojson: {
+    fileExtension: "geojson",
+    mimeType: "application/geo+json",
+    getContent: getSavedPointsGeoJson,
+    parse: parseSavedPointsGeoJson,
+  },
+  kml: {
+    fileExtension: "kml",
+    mimeType: "application/vnd.google-earth.kml+xml",
+    getContent: getSavedPointsKml,
+    parse: parseSavedPointsKml,
+  },
+  gpx: {
+    fileExtension: "gpx",
+    mimeType: "application/gpx+xml",
+    getContent: getSavedPointsGpx,
+    parse: parseSavedPointsGpx,
+  },
+};
+
+type SavedPointsBackup = {
+  format: typeof backupFormat;
+  schemaVersion: number;
+  createdTime: string;
+  savedPoints: SavedPoint[];
+};
+
+const backupFormat = "moon-proximity-saved-points";
+
+// For the GPX extension elements, which must be in their own namespace.
+const gpxExtensionNamespace = "urn:moon-proximity:saved-point";
+
+// Lowest and highest land elevations, allowing for some error.
+const minAltitudeInM = -500;
+const maxAltitudeInM = 9000;
+
+export function getSavedPointsFile(format: SavedPointFileFormat, points: SavedPoint[]): File {
+  const { fileExtension, mimeType, getContent } = savedPointFiles[format];
+  return new File([getContent(points)], `saved-points.${fileExtension}`, { type: mimeType });
+}
+
+/**
+ * Reads saved points from a GeoJSON, KML or GPX file, identified by its extension or else its content, keeping those
+ * within the time range of the ephemeris. Throws if the file can't be read as any of them.
+ */
+export async function readSavedPointsFile(file: File, ephemerisTimeRange: TimeRange): Promise<SavedPointImport> {
+  const text = await file.text();
+  const format = getFileFormat(file.name, text);
+  if (format === null) {
+    throw new Error(`${file.name} is not a GeoJSON, KML or GPX file.`);
+  }
+
+  const result = savedPointFiles[format].parse(text);
+  if (result.points.length === 0 && result.invalidCount === 0) {
+    throw new Error(`${file.name} contains no points.`);
+  }
+
+  return getPointsInTimeRange(result, ephemerisTimeRange);
+}
+
+export function getSavedPointsBackupFile(points: SavedPoint[]): File {
+  const createdTime = new Date().toISOString();
+  const backup: SavedPointsBackup = {
+    format: backupFormat,
+    schemaVersion: savedPointSchemaVersion,
+    createdTime,
+    savedPoints: points,
+  };
+
+  const fileName = `moon-proximity-backup-${createdTime.substring(0, 10)}.json`;
+  return new File([JSON.stringify(backup, null, 2)], fileName, { type: "application/json" });
+}
+
+/**
+ * Reads the points from a backup file as they were stored, leaving out entries that aren't saved points.
+ */
+export async function readSavedPointsBackupFile(file: File): Promise<SavedPointRestore> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not a valid JSON file.`);
+  }
+
+  const backup = asJsonObject(json);
+  const { schemaVersion, savedPoints } = backup;
+  if (backup.format !== backupFormat || typeof schemaVersion !== "number" || !Array.isArray(savedPoints)) {
+    throw new Error(`${file.name} is not a backup of saved points.`);
+  }
+
+  if (schemaVersion > savedPointSchemaVersion) {
+    throw new Error(`${file.name} is from a newer version of this page (schema version ${schemaVersion}).`);
+  }
+
+  const points = savedPoints.map(asStoredSavedPoint);
+  const validPoints = points.filter((p) => p !== null).map(upgradeSavedPoint);
+  return { points: validPoints, invalidCount: points.length - validPoints.length };
+}
+
+export function getSavedPointsGeoJson(points: SavedPoint[]): string {
+  const featureCollection = {
+    type: "FeatureCollection",
+    features: points.map((point) => ({
+      type: "Feature",
+      geometry: {
+        type: "Point",
+        coordinates: [point.longitudeDegrees, point.latitudeDegrees, point.altitudeInM],
+      },
+      properties: {
+        name: getSavedPointName(point),
+        elevationInM: point.altitudeInM,
+        distanceToMoonInKm: point.distanceToMoonInKm,
+        idealTime: new Date(point.idealUnixTime).toISOString(),
+        notes: point.notes,
+        tags: point.tags,
+        perigeeTime: point.perigeeUnixTime === null ? null : new Date(point.perigeeUnixTime).toISOString(),
+        horizonsResult: point.horizonsResult,
+      },
+    })),
+  };
+
+  return JSON.stringify(featureCollection, null, 2);
+}
+
+export function getSavedPointsKml(points: SavedPoint[]): string {
+  const placemarks = points.map((point) =>
+    [
+      "    <Placemark>",
+      `      <name>${escapeXml(getSavedPointName(point))}</name>`,
+      `      <description>${escapeXml(getPointDescription(point))}</description>`,
+      `      <TimeStamp><when>${new Date(point.idealUnixTime).toISOString()}</when></TimeStamp>`,
+      "      <ExtendedData>",
+      `        <Data name="elevationInM"><value>${point.altitudeInM}</value></Data>`,
+      `        <Data name="distanceToMoonInKm"><value>${point.distanceToMoonInKm}</value></Data>`,
+      `        <Data name="notes"><value>${escapeXml(point.notes)}</value></Data>`,
+      `        <Data name="tags"><value>${escapeXml(point.tags.join(","))}</value></Data>`,
+      `        <Data name="perigeeTime"><value>${formatOptionalTime(point.perigeeUnixTime)}</value></Data>`,
+      "      </ExtendedData>",
+      "      <Point>",
+      "        <altitudeMode>absolute</altitudeMode>",
+      `        <coordinates>${point.longitudeDegrees},${point.latitudeDegrees},${point.altitudeInM}</coordinates>`,
+      "      </Point>",
+      "    </Placemark>",
+    ].join("\n")
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    "  <Document>",
+    "    <name>Moon Proximity saved points</name>",
+    ...placemarks,
+    "  </Document>",
+    "</kml>",
+    "",
+  ].join("\n");
+}
+
+export function getSavedPointsGpx(points: SavedPoint[]): string {
+  const waypoints = points.map((point) =>
+    [
+      `  <wpt lat="${point.latitudeDegrees}" lon="${point.longitudeDegrees}">`,
+      `    <ele>${point.altitudeInM}</ele>`,
+      `    <time>${new Date(point.idealUnixTime).toISOString()}</time>`,
+      `    <name>${escapeXml(getSavedPointName(point))}</name>`,
+      `    <desc>${escapeXml(getPointDescription(point))}</desc>`,
+      "    <extensions>",
+      `      <moon:distanceToMoonInKm>${point.distanceToMoonInKm}</moon:distanceToMoonInKm>`,
+      `      <moon:notes>${escapeXml(point.notes)}</moon:notes>`,
+      ...point.tags.map((tag) => `      <moon:tag>${escapeXml(tag)}</moon:tag>`),
+      `      <moon:perigeeTime>${formatOptionalTime(point.perigeeUnixTime)}</moon:perigeeTime>`,
+      "    </extensions>",
+      "  </wpt>",
+    ].join("\n")
+  );
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="Moon Proximity" xmlns="http://www.topografix.com/GPX/1/1" xmlns:moon="${gpxExtensionNamespace}">`,
+    ...waypoints,
+    "</gpx>",
+    "",
+  ].join("\n");
+}
+
+function parseSavedPointsGeoJson(text: string): ParsedSavedPoints {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("Not a valid JSON file.");
+  }
+
+  const root = asJsonObject(json);
+  const features: unknown[] =
+    root.type === "FeatureCollection" && Array.isArray(root.features)
+      ? root.features
+      : root.type === "Feature"
+      ? [root]
+      : [];
+
+  const candidates = features.map((value): PointCandidate | null => {
+    const feature = asJsonObject(value);
+    const geometry = asJsonObject(feature.geometry);
+    const properties = asJsonObject(feature.properties);
+    if (geometry.type !== "Point" || !Array.isArray(geometry.coordinates)) {
+      return null;
+    }
+
+    const [longitudeDegrees, latitudeDegrees, altitudeInM]: unknown[] = geometry.coordinates;
+    return {
+      longitudeDegrees,
+      latitudeDegrees,
+      altitudeInM: properties.elevationInM ?? altitudeInM,
+      distanceToMoonInKm: properties.distanceToMoonInKm,
+      idealTime: properties.idealTime,
+      name: properties.name,
+      notes: properties.notes,
+      tags: properties.tags,
+      perigeeTime: properties.perigeeTime,
+      horizonsResult: properties.horizonsResult,
+    };
+  });
+
+  return getValidPoints(candidates);
+}
+
+function parseSavedPointsKml(text: string): ParsedSavedPoints {
+  const doc = parseXml(text);
+  const placemarks = [...doc.getElementsByTagNameNS("*", "Placemark")];
+  const candidates = placemarks.map((placemark): PointCandidate | null => {
+    const point = getChildElement(placemark, "Point");
+    const coordinates = point && getChildText(point, "coordinates");
+    if (!coordinates) {
+      return null;
+    }
+
+    // Only the first set of coordinates is used, if there are more.
+    const [longitudeDegrees, latitudeDegrees, altitudeInM] = coordinates.trim().split(/\s+/)[0].split(",");
+    const data = new Map(
+      [...placemark.getElementsByTagNameNS("*", "Data")].map((d) => [d.getAttribute("name"), getChildText(d, "value")])
+    );
+
+    const timeStamp = getChildElement(placemark, "TimeStamp");
+    return {
+      longitudeDegrees: parseNumber(longitudeDegrees),
+      latitudeDegrees: parseNumber(latitudeDegrees),
+      altitudeInM: parseNumber(data.get("elevationInM") ?? altitudeInM),
+      distanceToMoonInKm: parseNumber(data.get("distanceToMoonInKm")),
+      idealTime: timeStamp && getChildText(timeStamp, "when"),
+      name: getChildText(placemark, "name"),
+      notes: data.get("notes"),
+      tags: data.get("tags"),
+      perigeeTime: data.get("perigeeTime"),
+    };
+  });
+
+  return getValidPoints(candidates);
+}
+
+function parseSavedPointsGpx(text: string): ParsedSavedPoints {
+  const doc = parseXml(text);
+  const waypoints = [...doc.getElementsByTagNameNS("*", "wpt")];
+  const candidates = waypoints.map((waypoint): PointCandidate => {
+    const getExtensionTexts = (localName: string) =>
+      [...waypoint.getElementsByTagNameNS(gpxExtensionNamespace, localName)].map((e) => e.textContent ?? "");
+
+    return {
+      longitudeDegrees: parseNumber(waypoint.getAttribute("lon")),
+      latitudeDegrees: parseNumber(waypoint.getAttribute("lat")),
+      altitudeInM: parseNumber(getChildText(waypoint, "ele")),
+      distanceToMoonInKm: parseNumber(getExtensionTexts("distanceToMoonInKm")[0]),
+      idealTime: getChildText(waypoint, "time"),
+      name: getChildText(waypoint, "name"),
+      notes: getExtensionTexts("notes")[0],
+      tags: getExtensionTexts("tag"),
+      perigeeTime: getExtensionTexts("perigeeTime")[0],
+    };
+  });
+
+  return getValidPoints(candidates);
+}
+
+function getValidPoints(candidates: (PointCandidate | null)[]): ParsedSavedPoints {
+  const points = candidates.map((c) => (c === null ? null : asSavedPoint(c)));
+  const validPoints = points.filter((p): p is SavedPoint => p !== null);
+  return { points: validPoints, invalidCount: points.length - validPoints.length };
+}
+
+function getPointsInTimeRange({ points, invalidCount }: ParsedSavedPoints, timeRange: TimeRange): SavedPointImport {
+  const { matching, notMatching } = splitByProperty(
+    points,
+    (p) => p.idealUnixTime >= timeRange.startDate.getTime() && p.idealUnixTime <= timeRange.endDate.getTime()
+  );
+
+  return { points: matching, invalidCount, outOfRangeCount: notMatching.length };
+}
+
+function asSavedPoint(candidate: PointCandidate): SavedPoint | null {
+  const { longitudeDegrees, latitudeDegrees, altitudeInM, distanceToMoonInKm, idealTime } = candidate;
+  const idealUnixTime = typeof idealTime === "string" ? parseTime(idealTime) ?? NaN : NaN;
+  const isValid =
+    isNumberInRange(longitudeDegrees, -180, 180) &&
+    isNumberInRange(latitudeDegrees, -90, 90) &&
+    isNumberInRange(altitudeInM, minAltitudeInM, maxAltitudeInM) &&
+    isNumberInRange(distanceToMoonInKm, 0, Infinity) &&
+    Number.isFinite(idealUnixTime);
+
+  if (!isValid) {
+    return null;
+  }
+
+  const point: SavedPoint = {
+    longitudeDegrees,
+    latitudeDegrees,
+    altitudeInM,
+    distanceToMoonInKm,
+    idealUnixTime,
+    horizonsResult: isSavedHorizonsResult(candidate.horizonsResult) ? candidate.horizonsResult : null,
+    name: typeof candidate.name === "string" ? candidate.name.trim() : "",
+    notes: typeof candidate.notes === "string" ? candidate.notes : "",
+    tags: getTags(candidate.tags),
+    perigeeUnixTime: typeof candidate.perigeeTime === "string" ? parseTime(candidate.perigeeTime) : null,
+  };
+
+  // Unnamed points are exported with a name from their time, which shouldn't become their name when imported.
+  if (point.name === getSavedPointName({ ...point, name: "" })) {
+    point.name = "";
+  }
+
+  return point;
+}
+
+function getTags(value: unknown): string[] {
+  const tags = typeof value === "string" ? [value] : Array.isArray(value) ? value : [];
+  return parseTags(tags.filter((t) => typeof t === "string").join(","));
+}
+
+/**
+ * Gets the properties of a parsed JSON object, or none if it's not an object.
+ */
+function asJsonObject(value: unknown): JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? (value as JsonObject) : {};
+}
+
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+}
+
+function getFileFormat(fileName: string, text: string): SavedPointFileFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "geojson" || extension === "json") {
+    return "geojson";
+  }
+
+  if (extension === "kml" || extension === "gpx") {
+    return extension;
+  }
+
+  const start = text.trimStart();
+  return start.startsWith("{") ? "geojson" : /<kml[\s>]/.test(start) ? "kml" : /<gpx[\s>]/.test(start) ? "gpx" : null;
+}
+
+function getPointDescription(point: SavedPoint): string {
+  return `${point.distanceToMoonInKm.toFixed(3)} km from the Moon at an elevation of ${point.altitudeInM.toFixed(0)} m`;
+}
+
+function parseTime(text: string): number | null {
+  const time = text.trim() === "" ? NaN : new Date(text).getTime();
+  return Number.isFinite(time) ? time : null;
+}
+
+function formatOptionalTime(unixTime: number | null): string {
+  return unixTime === null ? "" : new Date(unixTime).toISOString();
+}
+
+function parseXml(text: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Not a valid XML file.");
+  }
+
+  return doc;
+}
+
+function getChildElement(parent: Element, localName: string): Element | null {
+  return [...parent.children].find((child) => child.localName === localName) ?? null;
+}
+
+function getChildText(parent: Element, localName: string): string | null {
+  return getChildElement(parent, localName)?.textContent ?? null;
+}
+
+function parseNumber(text: string | null | undefined): number {
+  return text ? Number(text) : NaN;
+}
+
+function escapeXml(text: string): string {
+  const entities: { [c: string]: string } = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" };
+  return text.replace(/[&<>"]/g, (c) => entities[c]);
+}
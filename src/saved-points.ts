@@ -0,0 +1,193 @@
+import { toFriendlyUTC } from "./common/text-utils";
+import type { Perigee, SavedHorizonsResult, SavedPoint } from "./state-types";
+
+export enum SavedPointSortOrder {
+  Distance = "distance",
+  Time = "time",
+  Name = "name",
+  Elevation = "elevation",
+}
+
+export type SavedPointFilter = {
+  // Words which must all appear in the name, notes or tags.
+  text: string;
+  // Empty for any tag.
+  tag: string;
+};
+
+/*
+Version of the SavedPoint type, stored with each point:
+  1. Location, distance, ideal time and Horizons result (in local storage, without a version).
+  2. Name, notes, tags and perigee.
+*/
+export const savedPointSchemaVersion = 2;
+
+export type SavedPointMerge = {
+  points: SavedPoint[];
+  addedCount: number;
+  duplicateCount: number;
+};
+
+// The closest approach to a location is within a day of the perigee, and perigees are about 27 days apart.
+const maxHoursFromPerigee = 48;
+const millisecondsPerHour = 1000 * 60 * 60;
+
+/**
+ * Fills in the properties missing from points saved by earlier versions.
+ */
+export function upgradeSavedPoint(point: StoredSavedPoint): SavedPoint {
+  return {
+    ...point,
+    // Points saved before verification results were stored don't have one.
+    horizonsResult: point.horizonsResult || null,
+    name: typeof point.name === "string" ? point.name : "",
+    notes: typeof point.notes === "string" ? point.notes : "",
+    tags: Array.isArray(point.tags) ? point.tags.filter((t) => typeof t === "string") : [],
+    perigeeUnixTime: typeof point.perigeeUnixTime === "number" ? point.perigeeUnixTime : null,
+  };
+}
+
+/**
+ * Checks that a value read from storage or a backup has the properties of a point saved by this or an earlier version,
+ * with the right types. Returns null if it doesn't.
+ */
+export function asStoredSavedPoint(value: unknown): StoredSavedPoint | null {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return null;
+  }
+
+  const point: UncheckedSavedPoint = value;
+  const { longitudeDegrees, latitudeDegrees, altitudeInM, distanceToMoonInKm, idealUnixTime } = point;
+  const { horizonsResult, name, notes, tags, perigeeUnixTime } = point;
+  if (
+    !isFiniteNumber(longitudeDegrees) ||
+    !isFiniteNumber(latitudeDegrees) ||
+    !isFiniteNumber(altitudeInM) ||
+    !isFiniteNumber(distanceToMoonInKm) ||
+    !isFiniteNumber(idealUnixTime) ||
+    !(horizonsResult === undefined || horizonsResult === null || isSavedHorizonsResult(horizonsResult)) ||
+    !(name === undefined || typeof name === "string") ||
+    !(notes === undefined || typeof notes === "string") ||
+    !(tags === undefined || (Array.isArray(tags) && tags.every((t): t is string => typeof t === "string"))) ||
+    !(perigeeUnixTime === undefined || perigeeUnixTime === null || isFiniteNumber(perigeeUnixTime))
+  ) {
+    return null;
+  }
+
+  return {
+    longitudeDegrees,
+    latitudeDegrees,
+    altitudeInM,
+    distanceToMoonInKm,
+    idealUnixTime,
+    horizonsResult,
+    name,
+    notes,
+    tags,
+    perigeeUnixTime,
+  };
+}
+
+export function isSavedHorizonsResult(value: unknown): value is SavedHorizonsResult {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const result = value as { [property in keyof SavedHorizonsResult]?: unknown };
+  const properties: (keyof SavedHorizonsResult)[] = ["unixTime", "range", "rangeRate", "verifiedUnixTime"];
+  return properties.every((property) => isFiniteNumber(result[property]));
+}
+
+/**
+ * Finds the perigee for a point, from its ideal time.
+ */
+export function findPerigeeForTime(perigees: Perigee[], unixTime: number): Perigee | null {
+  const maxMilliseconds = maxHoursFromPerigee * millisecondsPerHour;
+  return perigees.find((p) => Math.abs(p.date.getTime() - unixTime) <= maxMilliseconds) ?? null;
+}
+
+/**
+ * Adds the imported points that aren't already saved (at the same location and time), keeping the existing ones.
+ */
+export function mergeSavedPoints(existingPoints: SavedPoint[], importedPoints: SavedPoint[]): SavedPointMerge {
+  const keys = new Set(existingPoints.map(getPointKey));
+  const addedPoints = importedPoints.filter((point) => {
+    const key = getPointKey(point);
+    if (keys.has(key)) {
+      return false;
+    }
+
+    keys.add(key);
+    return true;
+  });
+
+  return {
+    points: [...existingPoints, ...addedPoints],
+    addedCount: addedPoints.length,
+    duplicateCount: importedPoints.length - addedPoints.length,
+  };
+}
+
+export function getSavedPointName(point: SavedPoint): string {
+  return point.name || toFriendlyUTC(new Date(point.idealUnixTime));
+}
+
+/**
+ * Gets distinct, non-empty tags from comma-separated text.
+ */
+export function parseTags(text: string): string[] {
+  const tags = text.split(",").map((t) => t.trim());
+  return tags.filter((t, i) => t !== "" && tags.indexOf(t) === i);
+}
+
+export function formatTags(tags: string[]): string {
+  return tags.join(", ");
+}
+
+export function getAllTags(points: SavedPoint[]): string[] {
+  return [...new Set(points.flatMap((p) => p.tags))].sort((a, b) => a.localeCompare(b));
+}
+
+export function matchesFilter(point: SavedPoint, filter: SavedPointFilter): boolean {
+  if (filter.tag !== "" && !point.tags.includes(filter.tag)) {
+    return false;
+  }
+
+  const searchText = [point.name, point.notes, ...point.tags].join(" ").toLowerCase();
+  const words = filter.text
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((w) => w !== "");
+  return words.every((word) => searchText.includes(word));
+}
+
+export function compareSavedPoints(a: SavedPoint, b: SavedPoint, sortOrder: SavedPointSortOrder): number {
+  switch (sortOrder) {
+    case SavedPointSortOrder.Distance:
+      return a.distanceToMoonInKm - b.distanceToMoonInKm;
+    case SavedPointSortOrder.Time:
+      return a.idealUnixTime - b.idealUnixTime;
+    case SavedPointSortOrder.Name:
+      return getSavedPointName(a).localeCompare(getSavedPointName(b));
+    case SavedPointSortOrder.Elevation:
+      // Highest first.
+      return b.altitudeInM - a.altitudeInM;
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function getPointKey(point: SavedPoint): string {
+  // The precision shown in the summary table, and to the second.
+  const location = `${point.longitudeDegrees.toFixed(6)},${point.latitudeDegrees.toFixed(6)}`;
+  return `${location}@${Math.round(point.idealUnixTime / 1000)}`;
+}
+
+// Points as they may have been stored by earlier versions.
+type AddedProperty = "horizonsResult" | "name" | "notes" | "tags" | "perigeeUnixTime";
+export type StoredSavedPoint = Omit<SavedPoint, AddedProperty> & Partial<Pick<SavedPoint, AddedProperty>>;
+
+// Properties of a point as read from storage or a backup, before they're checked.
+type UncheckedSavedPoint = { [property in keyof SavedPoint]?: unknown };
@@ -0,0 +1,159 @@
+import { EarthMoonSunPositions, getEarthMoonAndSunPositions } from "./calculations";
+import { maxByProperty, seqStep } from "./common/iteration";
+import { getPeaks } from "./common/peak-detection";
+import { dotProduct3, getMagnitude, normalize, scaleVector, subtractVectors } from "./common/vectors";
+import { earthEquatorialRadius, moonMeanRadius, sunMeanRadius } from "./constants";
+import { Ephemeris } from "./ephemeris";
+import { SolarEclipse, SolarEclipseType, Syzygy } from "./state-types";
+import { getAstronomicalTime } from "./time";
+
+// The Moon's shadow axis passes closest to the Earth within an hour or so of the new moon.
+const searchRangeMilliseconds = 1000 * 60 * 60 * 4;
+const searchStepMilliseconds = 1000 * 60 * 30;
+const peakRangeThresholdMilliseconds = 1000 * 30;
+
+/**
+ * The geometry of the Moon's shadow in the fundamental plane (the plane through the Earth's
+ * center perpendicular to the shadow axis). All distances are in km.
+ */
+type ShadowGeometry = {
+  date: Date;
+  positions: EarthMoonSunPositions;
+  // Distance of the shadow axis from the Earth's center, positive when the axis passes north of it.
+  signedAxisDistance: number;
+  // Distance from the Moon to the fundamental plane, along the shadow axis.
+  moonToPlaneDistance: number;
+  penumbralRadius: number;
+  // Positive for the umbra (total), negative for the antumbra (annular).
+  umbralRadius: number;
+  tanPenumbralConeAngle: number;
+  tanUmbralConeAngle: number;
+};
+
+/**
+ * Finds the instant of greatest eclipse around a new moon (when the shadow axis is closest
+ * to the Earth's center) and classifies the eclipse, or returns null if the penumbra misses the Earth.
+ * Gamma is in Earth equatorial radii; the Earth is treated as a sphere of that radius.
+ */
+export function getSolarEclipse(ephemeris: Ephemeris, newMoon: Syzygy): SolarEclipse | null {
+  const newMoonTime = newMoon.date.getTime();
+  const geometries = seqStep(
+    newMoonTime - searchRangeMilliseconds,
+    newMoonTime + searchRangeMilliseconds,
+    searchStepMilliseconds
+  ).map(unixTimeToShadowGeometry);
+
+  const peaks = getPeaks(
+    geometries,
+    (g) => g.date.getTime(),
+    (g) => -Math.abs(g.signedAxisDistance),
+    unixTimeToShadowGeometry,
+    peakRangeThresholdMilliseconds
+  );
+
+  if (peaks.length === 0) {
+    return null;
+  }
+
+  const greatest = maxByProperty(peaks, (p) => p.quality).item.peak;
+  return getSolarEclipseFromGeometry(greatest);
+
+  function unixTimeToShadowGeometry(unixTime: number): ShadowGeometry {
+    const date = new Date(unixTime);
+    const positions = getEarthMoonAndSunPositions(ephemeris, getAstronomicalTime(date));
+    return getShadowGeometry(date, positions);
+  }
+}
+
+function getShadowGeometry(date: Date, positions: EarthMoonSunPositions): ShadowGeometry {
+  const { earthPosition, moonPosition, sunPosition } = positions;
+  const sunToMoon = subtractVectors(moonPosition, sunPosition);
+  const sunMoonDistance = getMagnitude(sunToMoon);
+  const axisDirection = normalize(sunToMoon);
+
+  const moonToEarth = subtractVectors(earthPosition, moonPosition);
+  const moonToPlaneDistance = dotProduct3(moonToEarth, axisDirection);
+
+  // The component of the Moon-to-Earth vector perpendicular to the axis points from the axis to the Earth's center.
+  const axisToEarth = subtractVectors(moonToEarth, scaleVector(axisDirection, moonToPlaneDistance));
+  const axisDistance = getMagnitude(axisToEarth);
+  const signedAxisDistance = axisToEarth[2] > 0 ? -axisDistance : axisDistance;
+
+  const tanPenumbralConeAngle = (sunMeanRadius + moonMeanRadius) / sunMoonDistance;
+  const tanUmbralConeAngle = (sunMeanRadius - moonMeanRadius) / sunMoonDistance;
+  const penumbralRadius = moonMeanRadius + moonToPlaneDistance * tanPenumbralConeAngle;
+  const umbralRadius = moonMeanRadius - moonToPlaneDistance * tanUmbralConeAngle;
+
+  return {
+    date,
+    positions,
+    signedAxisDistance,
+    moonToPlaneDistance,
+    penumbralRadius,
+    umbralRadius,
+    tanPenumbralConeAngle,
+    tanUmbralConeAngle,
+  };
+}
+
+function getSolarEclipseFromGeometry(geometry: ShadowGeometry): SolarEclipse | null {
+  const { date, signedAxisDistance, penumbralRadius, umbralRadius } = geometry;
+  const axisDistance = Math.abs(signedAxisDistance);
+  const gamma = signedAxisDistance / earthEquatorialRadius;
+
+  if (axisDistance > earthEquatorialRadius + penumbralRadius) {
+    return null;
+  }
+
+  const isCentral = axisDistance < earthEquatorialRadius;
+  if (!isCentral) {
+    // The axis misses the Earth, so the deepest eclipse is at the edge of the Earth's disk.
+    // The Sun is covered from the edge of the penumbra to the edge of the umbra (or antumbra), and the umbral
+    // radius here has the opposite sign to the Besselian L2.
+    // https://en.wikipedia.org/wiki/Solar_eclipse#Non-central_eclipse
+    const magnitude = (earthEquatorialRadius + penumbralRadius - axisDistance) / (penumbralRadius - umbralRadius);
+    const touchesUmbra = axisDistance < earthEquatorialRadius + Math.abs(umbralRadius);
+    const eclipseType = !touchesUmbra
+      ? SolarEclipseType.Partial
+      : umbralRadius > 0
+      ? SolarEclipseType.Total
+      : SolarEclipseType.Annular;
+
+    return { date, eclipseType, isCentral, gamma, magnitude };
+  }
+
+  // The surface point on the axis is closer to the Moon than the fundamental plane, so the umbra is wider there.
+  // A hybrid eclipse is annular at the ends of its path but total where the surface bulges towards the Moon.
+  const moonToSurfaceDistance =
+    geometry.moonToPlaneDistance - Math.sqrt(earthEquatorialRadius ** 2 - axisDistance ** 2);
+  const surfaceUmbralRadius = moonMeanRadius - moonToSurfaceDistance * geometry.tanUmbralConeAngle;
+  const eclipseType =
+    umbralRadius > 0
+      ? SolarEclipseType.Total
+      : surfaceUmbralRadius > 0
+      ? SolarEclipseType.Hybrid
+      : SolarEclipseType.Annular;
+
+  // For central eclipses the magnitude is the ratio of the apparent diameters of the Moon and Sun.
+  const sunToSurfaceDistance =
+    getMagnitude(subtractVectors(geometry.positions.moonPosition, geometry.positions.sunPosition)) +
+    moonToSurfaceDistance;
+  const moonAngle = Math.asin(moonMeanRadius / moonToSurfaceDistance);
+  const sunAngle = Math.asin(sunMeanRadius / sunToSurfaceDistance);
+  const magnitude = moonAngle / sunAngle;
+
+  return { date, eclipseType, isCentral, gamma, magnitude };
+}
+
+export function getSolarEclipseTypeName(eclipseType: SolarEclipseType): string {
+  switch (eclipseType) {
+    case SolarEclipseType.Partial:
+      return "Partial";
+    case SolarEclipseType.Annular:
+      return "Annular";
+    case SolarEclipseType.Hybrid:
+      return "Hybrid";
+    case SolarEclipseType.Total:
+      return "Total";
+  }
+}
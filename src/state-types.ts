@@ -1,17 +1,24 @@
-import { DatePosition, EclipseMagnitude } from "./calculations";
-import { DelayedProperty, NotifiableProperty } from "./common/state-properties";
+import { DatePosition, DatePositionAngles, EclipseMagnitude } from "./calculations";
+import { NotifiableProperty } from "./common/state-properties";
 import { Ephemeris } from "./ephemeris";
+import { EphemerisWorkerClient } from "./ephemeris-worker-client";
 import { ProximityShapeData } from "./geo-shape-data";
+import { LunarEvents } from "./lunar-events";
 
 export type State = {
   tldrView: NotifiableProperty<boolean>;
   ephPromise: Promise<Ephemeris>;
+  ephemerisWorker: EphemerisWorkerClient;
   timeRange: NotifiableProperty<TimeRange>;
-  datePositions: DelayedProperty<DatePosition[]>;
-  perigees: NotifiableProperty<Perigee[]>;
+  lunarEvents: NotifiableProperty<LunarEvents>;
   selectedPerigee: NotifiableProperty<Perigee | null>;
   proximityShapeData: NotifiableProperty<ProximityShapeData | null>;
   terrainLocationData: NotifiableProperty<TerrainLocationData | null>;
+  // Location to select in the proximity map once its terrain is ready (e.g. from a link).
+  requestedLocation: NotifiableProperty<GeodeticLocation | null>;
+  // Camera positions moved from the defaults by the user (null when not moved).
+  earthCamera: NotifiableProperty<EarthCamera | null>;
+  proximityMapCamera: NotifiableProperty<ProximityMapCamera | null>;
   savedPoints: NotifiableProperty<SavedPoint[]>;
 };
 
@@ -21,14 +28,74 @@ export type TimeRange = {
 };
 
 export type Perigee = DatePosition & {
-  hoursFromFullMoon: number;
-  hoursFromNewMoon: number;
+  // Null if there's no full (or new) moon in the time range.
+  hoursFromFullMoon: number | null;
+  hoursFromNewMoon: number | null;
   angleBetweenMoonAndSun: number;
   moonVisibleAngle: number;
   sunVisibleAngle: number;
   isSuperMoon: boolean;
   isSuperNewMoon: boolean;
   lunarEclipseMagnitude: EclipseMagnitude;
+  solarEclipse: SolarEclipse | null;
+  lunarEclipse: LunarEclipse | null;
+};
+
+export type Apogee = DatePositionAngles & {
+  // Null if there's no full (or new) moon in the time range.
+  hoursFromFullMoon: number | null;
+  hoursFromNewMoon: number | null;
+  isMicroMoon: boolean;
+  isMicroNewMoon: boolean;
+};
+
+export enum SyzygyType {
+  FullMoon,
+  NewMoon,
+}
+
+export type Syzygy = DatePositionAngles & {
+  syzygyType: SyzygyType;
+};
+
+export enum SolarEclipseType {
+  Partial,
+  Annular,
+  Hybrid,
+  Total,
+}
+
+export type SolarEclipse = {
+  date: Date;
+  eclipseType: SolarEclipseType;
+  isCentral: boolean;
+  gamma: number;
+  magnitude: number;
+};
+
+export enum LunarEclipseType {
+  Penumbral,
+  Partial,
+  Total,
+}
+
+// Contact times of the Moon's limb with the penumbra (P) and umbra (U). Umbral contacts are null
+// when the Moon doesn't reach (U1, U4) or isn't fully immersed in (U2, U3) the umbra.
+export type LunarEclipseContacts = {
+  p1: Date;
+  u1: Date | null;
+  u2: Date | null;
+  u3: Date | null;
+  u4: Date | null;
+  p4: Date;
+};
+
+export type LunarEclipse = {
+  date: Date;
+  eclipseType: LunarEclipseType;
+  contacts: LunarEclipseContacts;
+  magnitude: EclipseMagnitude;
+  totalityMinutes: number;
 };
 
 export type TerrainLocationData = {
@@ -40,10 +107,41 @@ export type TerrainLocationData = {
   optimalDate: Date;
 };
 
+export type GeodeticLocation = {
+  longitudeDegrees: number;
+  latitudeDegrees: number;
+};
+
+export type EarthCamera = {
+  distance: number;
+  theta: number;
+  phi: number;
+};
+
+export type ProximityMapCamera = {
+  distance: number;
+  rotation: number;
+  tiltAngle: number;
+};
+
 export type SavedPoint = {
   longitudeDegrees: number;
   latitudeDegrees: number;
   altitudeInM: number;
   distanceToMoonInKm: number;
   idealUnixTime: number; // For serialization
+  horizonsResult: SavedHorizonsResult | null;
+  name: string;
+  notes: string;
+  tags: string[];
+  // The perigee the point was found for, if known.
+  perigeeUnixTime: number | null;
+};
+
+// The most recent Horizons result for a saved point (a serializable HorizonsResultRecord).
+export type SavedHorizonsResult = {
+  unixTime: number;
+  range: number;
+  rangeRate: number;
+  verifiedUnixTime: number;
 };
@@ -1,15 +1,132 @@
+import type { EphemerisChunk } from "./ephemeris-chunks";
+import { ephemerisFileVersion } from "./ephemeris-file";
+import {
+  asStoredSavedPoint,
+  mergeSavedPoints,
+  savedPointSchemaVersion,
+  StoredSavedPoint,
+  upgradeSavedPoint,
+} from "./saved-points";
 import type { SavedPoint } from "./state-types";
 
 // Include site name in keys because origin may contain several sites.
-const pointsKey = "moon-proximity-points";
 const tldrKey = "moon-proximity-tldr";
 
-export function savePoints(points: SavedPoint[]) {
-  saveValue(pointsKey, points);
+// Where points were saved before they were moved to their own store (DB version 4).
+const legacyPointsKey = "moon-proximity-points";
+
+const dbName = "moon-proximity";
+const dbVersion = 4;
+
+const blobsStoreName = "blobs";
+const horizonsResponsesStoreName = "horizons-responses";
+const ephemerisChunksStoreName = "ephemeris-chunks";
+const savedPointsStoreName = "saved-points";
+
+const jplDeFileBlobName = "jplde-file";
+
+// Where the ephemeris was cached before it was split into chunks with their own store (DB versions 1 and 2).
+const legacyEphemerisBlobName = "ephemeris";
+const legacyEphemerisChunkBlobNamePrefix = "ephemeris-chunk/";
+
+// Leave room for everything else in the origin's storage when caching ephemeris chunks.
+const maxEphemerisStorageFraction = 0.8;
+
+// Cached ephemeris chunk, with what's needed to tell whether it's still current and when it was last used.
+type StoredEphemerisChunk = {
+  fileName: string;
+  formatVersion: number;
+  checksum: number;
+  sizeInBytes: number;
+  lastUsedTime: number;
+  // A data URL where blobs can't be stored.
+  data: Blob | string;
+};
+
+// Saved point, keyed by its position in the list, with the version of the SavedPoint type it was stored as.
+type SavedPointRecord = StoredSavedPoint & {
+  id: number;
+  schemaVersion: number;
+};
+
+/**
+ * Gets the saved points, first moving any from local storage, where they were kept by earlier versions.
+ * Throws rather than returning no points if they can't be read, so they aren't overwritten.
+ */
+export async function readSavedPoints(db: IDBDatabase): Promise<SavedPoint[]> {
+  await migrateLegacySavedPoints(db);
+  const records = await getAllRecords<SavedPointRecord>(db, savedPointsStoreName);
+  return records.map(getSavedPointFromRecord);
+}
+
+/**
+ * Replaces all the saved points, in a single transaction so that either all or none are stored.
+ */
+export function storeSavedPoints(db: IDBDatabase, points: SavedPoint[]): Promise<void> {
+  const transaction = db.transaction(savedPointsStoreName, "readwrite");
+  const store = transaction.objectStore(savedPointsStoreName);
+  store.clear();
+  points.forEach((point, id) => {
+    const record: SavedPointRecord = { ...point, id, schemaVersion: savedPointSchemaVersion };
+    store.put(record);
+  });
+
+  return new Promise((resolve, reject) => {
+    transaction.onerror = (err) => reject(new Error(`Database error: ${transaction.error}\n${err}`));
+    transaction.onabort = () => reject(new Error(`Database transaction aborted: ${transaction.error}`));
+    transaction.oncomplete = () => resolve();
+  });
+}
+
+async function migrateLegacySavedPoints(db: IDBDatabase): Promise<void> {
+  const json = localStorage.getItem(legacyPointsKey);
+  if (json === null) {
+    return;
+  }
+
+  // Leave the points where they are if they can't be read, rather than losing them.
+  let legacyPoints: unknown;
+  try {
+    legacyPoints = JSON.parse(json);
+  } catch (err) {
+    throw new Error(`Unable to read points saved by an earlier version: ${err}`);
+  }
+
+  if (!Array.isArray(legacyPoints)) {
+    throw new Error("Points saved by an earlier version are not a list.");
+  }
+
+  // Another page may have moved them already, but an older one may still have saved more since.
+  const records = await getAllRecords<SavedPointRecord>(db, savedPointsStoreName);
+  const existingPoints = records.map(getSavedPointFromRecord);
+  const legacySavedPoints: SavedPoint[] = [];
+  const invalidEntries: unknown[] = [];
+  legacyPoints.forEach((value: unknown) => {
+    const point = asStoredSavedPoint(value);
+    if (point === null) {
+      invalidEntries.push(value);
+    } else {
+      legacySavedPoints.push(upgradeSavedPoint(point));
+    }
+  });
+
+  const { points } = mergeSavedPoints(existingPoints, legacySavedPoints);
+  await storeSavedPoints(db, points);
+
+  // Keep any entries that aren't points where they are, rather than losing them.
+  if (invalidEntries.length > 0) {
+    localStorage.setItem(legacyPointsKey, JSON.stringify(invalidEntries));
+  } else {
+    localStorage.removeItem(legacyPointsKey);
+  }
 }
 
-export function getSavedPoints(): SavedPoint[] {
-  return getSavedValue(pointsKey, []);
+function getSavedPointFromRecord({ id, schemaVersion, ...point }: SavedPointRecord): SavedPoint {
+  if (schemaVersion > savedPointSchemaVersion) {
+    throw new Error(`Saved point ${id} is from a newer version of this page (schema version ${schemaVersion}).`);
+  }
+
+  return upgradeSavedPoint(point);
 }
 
 export function saveTldr(tldr: boolean) {
@@ -38,28 +155,122 @@ function getSavedValue<T>(key: string, fallbackValue: T): T {
   }
 }
 
-export async function readEphemeris(db: IDBDatabase): Promise<Blob | null> {
+/**
+ * Gets the cached data for the chunk, if it was stored from the same version of the chunk file.
+ */
+export async function readEphemerisChunk(db: IDBDatabase, chunk: EphemerisChunk): Promise<Blob | null> {
   try {
-    return await getBlob(db, "ephemeris");
+    const stored = await getRecord<StoredEphemerisChunk>(db, ephemerisChunksStoreName, chunk.fileName);
+    if (stored === null) {
+      return null;
+    }
+
+    if (stored.formatVersion !== ephemerisFileVersion || stored.checksum !== chunk.checksum) {
+      await deleteRecord(db, ephemerisChunksStoreName, chunk.fileName);
+      return null;
+    }
+
+    await putRecord(db, ephemerisChunksStoreName, { ...stored, lastUsedTime: Date.now() });
+    return typeof stored.data === "string" ? await (await fetch(stored.data)).blob() : stored.data;
   } catch (err) {
     return null;
   }
 }
 
-export async function storeEphemeris(db: IDBDatabase, blob: Blob): Promise<void> {
+export async function storeEphemerisChunk(db: IDBDatabase, chunk: EphemerisChunk, blob: Blob): Promise<void> {
+  const stored: StoredEphemerisChunk = {
+    fileName: chunk.fileName,
+    formatVersion: ephemerisFileVersion,
+    checksum: chunk.checksum,
+    sizeInBytes: blob.size,
+    lastUsedTime: Date.now(),
+    data: blob,
+  };
+
   try {
-    await storeBlobAsBlob(db, "ephemeris", blob);
-  } catch (err) {
+    await evictEphemerisChunks(db, blob.size);
     try {
-      await storeBlobAsString(db, "ephemeris", blob);
+      await putRecord(db, ephemerisChunksStoreName, stored);
     } catch (err) {
-      console.error(`Failed to store ephemeris: ${err}`);
+      await putRecord(db, ephemerisChunksStoreName, { ...stored, data: await readAsDataUrl(blob) });
     }
+  } catch (err) {
+    console.error(`Failed to store ephemeris chunk ${chunk.fileName}: ${err}`);
+  }
+}
+
+/**
+ * Removes cached chunks that are no longer in the index, e.g. after the ephemeris has been regenerated.
+ */
+export async function deleteStaleEphemerisChunks(db: IDBDatabase, chunks: EphemerisChunk[]): Promise<void> {
+  const checksums = new Map(chunks.map((chunk) => [chunk.fileName, chunk.checksum]));
+  try {
+    const storedChunks = await getAllRecords<StoredEphemerisChunk>(db, ephemerisChunksStoreName);
+    const staleChunks = storedChunks.filter(
+      (stored) => stored.formatVersion !== ephemerisFileVersion || checksums.get(stored.fileName) !== stored.checksum
+    );
+
+    await Promise.all(staleChunks.map((stored) => deleteRecord(db, ephemerisChunksStoreName, stored.fileName)));
+  } catch (err) {
+    console.error(`Failed to remove stale ephemeris chunks: ${err}`);
   }
 }
 
+/**
+ * Removes the least recently used chunks until there is room for the new one within our share of the quota.
+ */
+async function evictEphemerisChunks(db: IDBDatabase, requiredBytes: number): Promise<void> {
+  if (!navigator.storage?.estimate) {
+    return;
+  }
+
+  const { usage, quota } = await navigator.storage.estimate();
+  if (usage === undefined || quota === undefined) {
+    return;
+  }
+
+  let excessBytes = usage + requiredBytes - quota * maxEphemerisStorageFraction;
+  if (excessBytes <= 0) {
+    return;
+  }
+
+  const storedChunks = await getAllRecords<StoredEphemerisChunk>(db, ephemerisChunksStoreName);
+  storedChunks.sort((a, b) => a.lastUsedTime - b.lastUsedTime);
+  for (const stored of storedChunks) {
+    if (excessBytes <= 0) {
+      break;
+    }
+
+    await deleteRecord(db, ephemerisChunksStoreName, stored.fileName);
+    excessBytes -= stored.sizeInBytes;
+  }
+}
+
+export async function readJplDeFile(db: IDBDatabase): Promise<Blob | null> {
+  try {
+    return await getBlob(db, jplDeFileBlobName);
+  } catch (err) {
+    return null;
+  }
+}
+
+export async function storeJplDeFile(db: IDBDatabase, file: File): Promise<void> {
+  // The full files are too large to store as data URLs.
+  await storeBlobAsBlob(db, jplDeFileBlobName, file);
+}
+
+export function deleteJplDeFile(db: IDBDatabase): Promise<void> {
+  const blobStore = db.transaction(blobsStoreName, "readwrite").objectStore(blobsStoreName);
+  const request = blobStore.delete(jplDeFileBlobName);
+
+  return new Promise((resolve, reject) => {
+    request.onerror = (err) => reject(new Error(`Database error: ${request.error}\n${err}`));
+    request.onsuccess = () => resolve();
+  });
+}
+
 function getBlob(db: IDBDatabase, name: string): Promise<Blob> {
-  const blobStore = db.transaction("blobs", "readwrite").objectStore("blobs");
+  const blobStore = db.transaction(blobsStoreName, "readwrite").objectStore(blobsStoreName);
   const request = blobStore.get(name);
 
   return new Promise((resolve, reject) => {
@@ -79,7 +290,7 @@ function getBlob(db: IDBDatabase, name: string): Promise<Blob> {
 }
 
 function storeBlobAsBlob(db: IDBDatabase, name: string, blob: Blob): Promise<IDBValidKey> {
-  const blobStore = db.transaction("blobs", "readwrite").objectStore("blobs");
+  const blobStore = db.transaction(blobsStoreName, "readwrite").objectStore(blobsStoreName);
 
   const request = blobStore.put(blob, name);
 
@@ -89,35 +300,125 @@ function storeBlobAsBlob(db: IDBDatabase, name: string, blob: Blob): Promise<IDB
   });
 }
 
-function storeBlobAsString(db: IDBDatabase, name: string, blob: Blob): Promise<IDBValidKey> {
+function readAsDataUrl(blob: Blob): Promise<string> {
   const reader = new FileReader();
   return new Promise((resolve, reject) => {
     reader.onerror = reject;
-    reader.onload = () => {
-      const blobStore = db.transaction("blobs", "readwrite").objectStore("blobs");
-      const request = blobStore.put(reader.result, name);
-      request.onerror = (err) => reject(new Error(`Database error: ${request.error}\n${err}`));
-      request.onsuccess = () => resolve(request.result);
-    };
-
+    reader.onload = () => resolve(reader.result as string);
     reader.readAsDataURL(blob);
   });
 }
 
+function getRecord<T>(db: IDBDatabase, storeName: string, key: IDBValidKey): Promise<T | null> {
+  const store = db.transaction(storeName, "readonly").objectStore(storeName);
+  const request = store.get(key);
+
+  return new Promise((resolve, reject) => {
+    request.onerror = (err) => reject(new Error(`Database error: ${request.error}\n${err}`));
+    request.onsuccess = () => resolve(request.result === undefined ? null : request.result);
+  });
+}
+
+function getAllRecords<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  const store = db.transaction(storeName, "readonly").objectStore(storeName);
+  const request = store.getAll();
+
+  return new Promise((resolve, reject) => {
+    request.onerror = (err) => reject(new Error(`Database error: ${request.error}\n${err}`));
+    request.onsuccess = () => resolve(request.result);
+  });
+}
+
+function putRecord<T>(db: IDBDatabase, storeName: string, value: T): Promise<void> {
+  const store = db.transaction(storeName, "readwrite").objectStore(storeName);
+  const request = store.put(value);
+
+  return new Promise((resolve, reject) => {
+    request.onerror = (err) => reject(new Error(`Database error: ${request.error}\n${err}`));
+    request.onsuccess = () => resolve();
+  });
+}
+
+function deleteRecord(db: IDBDatabase, storeName: string, key: IDBValidKey): Promise<void> {
+  const store = db.transaction(storeName, "readwrite").objectStore(storeName);
+  const request = store.delete(key);
+
+  return new Promise((resolve, reject) => {
+    request.onerror = (err) => reject(new Error(`Database error: ${request.error}\n${err}`));
+    request.onsuccess = () => resolve();
+  });
+}
+
+export async function readHorizonsResponse(db: IDBDatabase, key: string): Promise<unknown | null> {
+  const responseStore = db.transaction(horizonsResponsesStoreName, "readonly").objectStore(horizonsResponsesStoreName);
+  const request = responseStore.get(key);
+
+  return new Promise((resolve, reject) => {
+    request.onerror = (err) => reject(new Error(`Database error: ${request.error}\n${err}`));
+    request.onsuccess = () => resolve(request.result === undefined ? null : request.result);
+  });
+}
+
+export async function storeHorizonsResponse(db: IDBDatabase, key: string, response: unknown): Promise<void> {
+  const responseStore = db.transaction(horizonsResponsesStoreName, "readwrite").objectStore(horizonsResponsesStoreName);
+  const request = responseStore.put(response, key);
+
+  return new Promise((resolve, reject) => {
+    request.onerror = (err) => reject(new Error(`Database error: ${request.error}\n${err}`));
+    request.onsuccess = () => resolve();
+  });
+}
+
 export async function getIndexedDb(): Promise<IDBDatabase | null> {
   try {
-    const request = indexedDB.open("moon-proximity", 1);
+    const request = indexedDB.open(dbName, dbVersion);
 
-    request.onupgradeneeded = () => {
+    request.onupgradeneeded = (event) => {
+      // Create any stores added since the database was last opened.
       const db = request.result;
-      db.createObjectStore("blobs");
+      db.onversionchange = () => db.close();
+      [blobsStoreName, horizonsResponsesStoreName]
+        .filter((name) => !db.objectStoreNames.contains(name))
+        .forEach((name) => db.createObjectStore(name));
+
+      if (!db.objectStoreNames.contains(ephemerisChunksStoreName)) {
+        db.createObjectStore(ephemerisChunksStoreName, { keyPath: "fileName" });
+      }
+
+      if (!db.objectStoreNames.contains(savedPointsStoreName)) {
+        db.createObjectStore(savedPointsStoreName, { keyPath: "id" });
+      }
+
+      if (event.oldVersion > 0 && event.oldVersion < 3) {
+        // The ephemeris blobs were never invalidated, and are now cached in their own store.
+        const blobStore = request.transaction!.objectStore(blobsStoreName);
+        blobStore.delete(legacyEphemerisBlobName);
+        blobStore.delete(
+          IDBKeyRange.bound(legacyEphemerisChunkBlobNamePrefix, `${legacyEphemerisChunkBlobNamePrefix}\uffff`)
+        );
+      }
     };
 
     const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      // The upgrade waits for other tabs with an older version of the page to close the database, which they may
+      // never do, so give up rather than wait. If it goes ahead later, close the connection that's no longer wanted.
+      let isBlocked = false;
+      request.onblocked = () => {
+        isBlocked = true;
+        reject(new Error("Database upgrade blocked by another tab"));
+      };
       request.onerror = (err) => reject(new Error(`Database error: ${request.error}\n${err}`));
-      request.onsuccess = () => resolve(request.result);
+      request.onsuccess = () => {
+        if (isBlocked) {
+          request.result.close();
+        } else {
+          resolve(request.result);
+        }
+      };
     });
 
+    // Don't hold up upgrades from pages (or workers) running a newer version.
+    db.onversionchange = () => db.close();
     return db;
   } catch (err) {
     return null;
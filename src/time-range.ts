@@ -0,0 +1,59 @@
+import { Ephemeris } from "./ephemeris";
+import type { TimeRange } from "./state-types";
+import { getAstronomicalTime, tdbJulianDaysToDate } from "./time";
+
+// Calculations look a little beyond the dates they are for, e.g. when refining events or finding rise and set times.
+const loadMarginDays = 2;
+
+/**
+ * Gets the whole years covered by the ephemeris, leaving a margin for calculations around the dates at either end.
+ */
+export function getEphemerisTimeRange(ephemeris: Ephemeris): TimeRange {
+  const startDate = tdbJulianDaysToDate(ephemeris.getStartJulianDate() + 1);
+  const endDate = tdbJulianDaysToDate(ephemeris.getEndJulianDate() - 1);
+  const startYear = startDate.getUTCFullYear() + (isStartOfYear(startDate) ? 0 : 1);
+  const endYear = endDate.getUTCFullYear();
+  if (endYear <= startYear) {
+    // Less than a year: use the whole range.
+    return { startDate, endDate };
+  }
+
+  return { startDate: getStartOfYear(startYear), endDate: getStartOfYear(endYear) };
+}
+
+/**
+ * Makes sure the ephemeris data for the time range is available before calculating anything within it.
+ */
+export function loadEphemerisRange(ephemeris: Ephemeris, timeRange: TimeRange): Promise<void> {
+  const startJulianDate = getAstronomicalTime(timeRange.startDate).tdb.julianDays - loadMarginDays;
+  const endJulianDate = getAstronomicalTime(timeRange.endDate).tdb.julianDays + loadMarginDays;
+  return ephemeris.loadRange(
+    Math.max(startJulianDate, ephemeris.getStartJulianDate()),
+    Math.min(endJulianDate, ephemeris.getEndJulianDate())
+  );
+}
+
+/**
+ * Moves the time range to lie within the bounds, keeping its duration if possible.
+ */
+export function clampTimeRange(timeRange: TimeRange, bounds: TimeRange): TimeRange {
+  const boundsDuration = bounds.endDate.getTime() - bounds.startDate.getTime();
+  const duration = Math.min(timeRange.endDate.getTime() - timeRange.startDate.getTime(), boundsDuration);
+  const latestStartTime = bounds.endDate.getTime() - duration;
+  const startTime = Math.max(bounds.startDate.getTime(), Math.min(timeRange.startDate.getTime(), latestStartTime));
+  return { startDate: new Date(startTime), endDate: new Date(startTime + duration) };
+}
+
+export function isWithinTimeRange(timeRange: TimeRange, bounds: TimeRange): boolean {
+  return timeRange.startDate >= bounds.startDate && timeRange.endDate <= bounds.endDate;
+}
+
+function getStartOfYear(year: number): Date {
+  const date = new Date(Date.UTC(2000, 0, 1));
+  date.setUTCFullYear(year);
+  return date;
+}
+
+function isStartOfYear(date: Date): boolean {
+  return date.getTime() === getStartOfYear(date.getUTCFullYear()).getTime();
+}
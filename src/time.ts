@@ -1,21 +1,103 @@
 const secondsPerDay = 86400;
 const unixEpochInJulianDays = 2440587.5; // Julian days until 1970-01-01T00:00:00Z
-const j2000InJulianDays = 2451545; // TODO: Account for j2000 epoch starting at 11:58:55.816 ?
+const j2000InJulianDays = 2451545; // 2000-01-01T12:00:00 in whichever time scale is in use (TT for the J2000 epoch)
+const ttMinusTaiSeconds = 32.184;
 
+// TAI-UTC from the start of each period (IERS Bulletin C). No leap seconds are scheduled after 2017, so
+// later dates are assumed to keep the last offset.
+// https://hpiers.obspm.fr/iers/bul/bulc/Leap_Second.dat
+const leapSeconds: [utcDate: string, taiMinusUtcSeconds: number][] = [
+  ["1972-01-01", 10],
+  ["1972-07-01", 11],
+  ["1973-01-01", 12],
+  ["1974-01-01", 13],
+  ["1975-01-01", 14],
+  ["1976-01-01", 15],
+  ["1977-01-01", 16],
+  ["1978-01-01", 17],
+  ["1979-01-01", 18],
+  ["1980-01-01", 19],
+  ["1981-07-01", 20],
+  ["1982-07-01", 21],
+  ["1983-07-01", 22],
+  ["1985-07-01", 23],
+  ["1988-01-01", 24],
+  ["1990-01-01", 25],
+  ["1991-01-01", 26],
+  ["1992-07-01", 27],
+  ["1993-07-01", 28],
+  ["1994-07-01", 29],
+  ["1996-01-01", 30],
+  ["1997-07-01", 31],
+  ["1999-01-01", 32],
+  ["2006-01-01", 33],
+  ["2009-01-01", 34],
+  ["2012-07-01", 35],
+  ["2015-07-01", 36],
+  ["2017-01-01", 37],
+];
+
+const leapSecondUnixTimes = leapSeconds.map(([utcDate, taiMinusUtc]) => ({
+  unixSeconds: new Date(`${utcDate}T00:00:00Z`).getTime() / 1000,
+  taiMinusUtc,
+}));
+
+// Observed ΔT (TT-UT1) at the start of each year, in seconds.
+// https://maia.usno.navy.mil/ser7/deltat.data
+const deltaTFirstYear = 2000;
+// prettier-ignore
+const observedDeltaTs = [
+  63.83, 64.09, 64.3, 64.47, 64.57, 64.69, 64.85, 65.15, 65.46, 65.78,
+  66.07, 66.32, 66.6, 66.91, 67.28, 67.64, 68.1, 68.59, 68.97, 69.22,
+  69.36, 69.36, 69.29, 69.2, 69.18, 69.13,
+];
+
+// Polynomial fits to historical ΔT (Espenak & Meeus), for dates before the observations above. Each applies from
+// its start year, in powers of (year - origin) / scale.
+// https://eclipse.gsfc.nasa.gov/SEhelp/deltatpoly2004.html
+type DeltaTFit = { startYear: number; origin: number; scale: number; coeffs: number[] };
+// prettier-ignore
+const historicalDeltaTFits: DeltaTFit[] = [
+  { startYear: -500, origin: 0, scale: 100, coeffs: [10583.6, -1014.41, 33.78311, -5.952053, -0.1798452, 0.022174192, 0.0090316521] },
+  { startYear: 500, origin: 1000, scale: 100, coeffs: [1574.2, -556.01, 71.23472, 0.319781, -0.8503463, -0.005050998, 0.0083572073] },
+  { startYear: 1600, origin: 1600, scale: 1, coeffs: [120, -0.9808, -0.01532, 1 / 7129] },
+  { startYear: 1700, origin: 1700, scale: 1, coeffs: [8.83, 0.1603, -0.0059285, 0.00013336, -1 / 1174000] },
+  { startYear: 1800, origin: 1800, scale: 1, coeffs: [13.72, -0.332447, 0.0068612, 0.0041116, -0.00037436, 0.0000121272, -0.0000001699, 0.000000000875] },
+  { startYear: 1860, origin: 1860, scale: 1, coeffs: [7.62, 0.5737, -0.251754, 0.01680668, -0.0004473624, 1 / 233174] },
+  { startYear: 1900, origin: 1900, scale: 1, coeffs: [-2.79, 1.494119, -0.0598939, 0.0061966, -0.000197] },
+  { startYear: 1920, origin: 1920, scale: 1, coeffs: [21.2, 0.84493, -0.0761, 0.0020936] },
+  { startYear: 1941, origin: 1950, scale: 1, coeffs: [29.07, 0.407, -1 / 233, 1 / 2547] },
+  { startYear: 1961, origin: 1975, scale: 1, coeffs: [45.45, 1.067, -1 / 260, -1 / 718] },
+  { startYear: 1986, origin: 2000, scale: 1, coeffs: [63.86, 0.3345, -0.060374, 0.0017275, 0.000651814, 0.00002373599] },
+];
+
+export type JulianTime = {
+  julianDays: number;
+  j2000Days: number;
+};
+
+/**
+ * A single instant expressed in each of the time scales we need. The top-level Julian day values are UTC (or UT1
+ * before 1972).
+ * - TAI: International Atomic Time (UTC plus leap seconds)
+ * - TT: Terrestrial Time (TAI + 32.184s), used for precession and nutation
+ * - TDB: Barycentric Dynamical Time, the time argument of the JPL ephemerides
+ * - UT1: the Earth's rotation angle, TT - ΔT
+ */
 export type AstronomicalTime = {
   date: Date;
   unixSeconds: number;
   unixDays: number;
   julianDays: number;
   j2000Days: number;
+  tai: JulianTime;
+  tt: JulianTime;
+  tdb: JulianTime;
+  ut1: JulianTime;
 };
 
 export function getAstronomicalTime(date: Date): AstronomicalTime {
-  const unixSeconds = date.getTime() / 1000;
-  const unixDays = unixSeconds / secondsPerDay;
-  const julianDays = unixEpochInJulianDays + unixDays;
-  const j2000Days = julianDays - j2000InJulianDays;
-  return { date, unixSeconds, unixDays, julianDays, j2000Days };
+  return getAstronomicalTimeFromUnixSeconds(date, date.getTime() / 1000);
 }
 
 export function julianDaysToDate(julianDays: number): Date {
@@ -24,13 +106,123 @@ export function julianDaysToDate(julianDays: number): Date {
   return new Date(unixSeconds * 1000);
 }
 
+/**
+ * Converts a TDB Julian date (e.g. from a JPL ephemeris or Horizons vector table) to a UTC date.
+ */
+export function tdbJulianDaysToDate(tdbJulianDays: number): Date {
+  // TDB-UTC only changes at leap seconds (and by milliseconds over a year otherwise, or with ΔT before 1972), so
+  // the offset found at an estimate within a minute of the result is exact after a second pass.
+  let date = julianDaysToDate(tdbJulianDays);
+  for (let i = 0; i < 2; i++) {
+    const time = getAstronomicalTime(date);
+    date = julianDaysToDate(tdbJulianDays - (time.tdb.julianDays - time.julianDays));
+  }
+
+  return date;
+}
+
 export function incrementTime(time: AstronomicalTime, amountSeconds: number): AstronomicalTime {
-  const amountDays = amountSeconds / secondsPerDay;
+  const unixSeconds = time.unixSeconds + amountSeconds;
+  return getAstronomicalTimeFromUnixSeconds(new Date(time.date.getTime() + amountSeconds * 1000), unixSeconds);
+}
+
+/**
+ * Gets ΔT (TT-UT1) in seconds, interpolating observed values and extrapolating beyond them with the long-term
+ * parabola of Morrison & Stephenson (2004), offset to meet the last observation. Predictions decades ahead are
+ * uncertain by several seconds. Earlier dates use historical fits, which are uncertain by minutes or more before
+ * the telescopic era.
+ */
+export function getDeltaTSeconds(decimalYear: number): number {
+  const index = decimalYear - deltaTFirstYear;
+  if (index < 0) {
+    return getHistoricalDeltaT(decimalYear);
+  }
+
+  const lastIndex = observedDeltaTs.length - 1;
+  if (index < lastIndex) {
+    const lowerIndex = Math.floor(index);
+    const proportion = index - lowerIndex;
+    return observedDeltaTs[lowerIndex] * (1 - proportion) + observedDeltaTs[lowerIndex + 1] * proportion;
+  }
+
+  const lastYear = deltaTFirstYear + lastIndex;
+  return observedDeltaTs[lastIndex] + getLongTermDeltaT(decimalYear) - getLongTermDeltaT(lastYear);
+}
+
+function getHistoricalDeltaT(decimalYear: number): number {
+  const fit = historicalDeltaTFits.findLast((f) => decimalYear >= f.startYear);
+  if (fit === undefined) {
+    return getLongTermDeltaT(decimalYear);
+  }
+
+  const t = (decimalYear - fit.origin) / fit.scale;
+  return fit.coeffs.reduceRight((sum, coeff) => sum * t + coeff, 0);
+}
+
+function getLongTermDeltaT(decimalYear: number): number {
+  const u = (decimalYear - 1820) / 100;
+  return -20 + 32 * u * u;
+}
+
+function getAstronomicalTimeFromUnixSeconds(date: Date, unixSeconds: number): AstronomicalTime {
+  const unixDays = unixSeconds / secondsPerDay;
+  const julianDays = unixEpochInJulianDays + unixDays;
+
+  const { ttJulianDays, ut1JulianDays } = getTtAndUt1JulianDays(unixSeconds, julianDays);
+  const taiJulianDays = ttJulianDays - ttMinusTaiSeconds / secondsPerDay;
+  const tdbJulianDays = ttJulianDays + getTdbMinusTtSeconds(ttJulianDays) / secondsPerDay;
+
   return {
-    date: new Date(time.date.getTime() + amountSeconds * 1000),
-    unixSeconds: time.unixSeconds + amountSeconds,
-    unixDays: time.unixDays + amountDays,
-    julianDays: time.julianDays + amountDays,
-    j2000Days: time.j2000Days + amountDays,
+    date,
+    unixSeconds,
+    unixDays,
+    julianDays,
+    j2000Days: julianDays - j2000InJulianDays,
+    tai: asJulianTime(taiJulianDays),
+    tt: asJulianTime(ttJulianDays),
+    tdb: asJulianTime(tdbJulianDays),
+    ut1: asJulianTime(ut1JulianDays),
   };
 }
+
+function asJulianTime(julianDays: number): JulianTime {
+  return { julianDays, j2000Days: julianDays - j2000InJulianDays };
+}
+
+function getTtAndUt1JulianDays(
+  unixSeconds: number,
+  julianDays: number
+): { ttJulianDays: number; ut1JulianDays: number } {
+  const taiMinusUtc = getTaiMinusUtcSeconds(unixSeconds);
+  if (taiMinusUtc === null) {
+    // Before 1972 UTC was not kept in whole-second steps from TAI, but was kept close to UT1 (and historical
+    // times are UT), so the time is taken to be UT1, and TT found from ΔT.
+    const ttJulianDays = julianDays + getDeltaTSeconds(getDecimalYear(julianDays)) / secondsPerDay;
+    return { ttJulianDays, ut1JulianDays: julianDays };
+  }
+
+  const ttJulianDays = julianDays + (taiMinusUtc + ttMinusTaiSeconds) / secondsPerDay;
+  const ut1JulianDays = ttJulianDays - getDeltaTSeconds(getDecimalYear(ttJulianDays)) / secondsPerDay;
+  return { ttJulianDays, ut1JulianDays };
+}
+
+function getDecimalYear(julianDays: number): number {
+  return 2000 + (julianDays - j2000InJulianDays) / 365.25;
+}
+
+function getTaiMinusUtcSeconds(unixSeconds: number): number | null {
+  for (let i = leapSecondUnixTimes.length - 1; i >= 0; i--) {
+    if (unixSeconds >= leapSecondUnixTimes[i].unixSeconds) {
+      return leapSecondUnixTimes[i].taiMinusUtc;
+    }
+  }
+
+  return null;
+}
+
+function getTdbMinusTtSeconds(ttJulianDays: number): number {
+  // Periodic terms due to the eccentricity of the Earth's orbit, accurate to about 30 microseconds.
+  // https://aa.usno.navy.mil/faq/TT
+  const g = ((357.53 + 0.98560028 * (ttJulianDays - j2000InJulianDays)) * Math.PI) / 180;
+  return 0.001657 * Math.sin(g) + 0.00001385 * Math.sin(2 * g);
+}
@@ -0,0 +1,245 @@
+import {
+  getEarthAndMoonPositions,
+  getEarthFixedPosition,
+  getEarthMoonAndSunPositions,
+  getEarthRadiusAtPosition,
+  getEarthRotation,
+  getGeodeticCoordinates,
+  getGeodeticPosition,
+  getLatLongPosition,
+} from "./calculations";
+import { maxByProperty, seqStep } from "./common/iteration";
+import { degToRad } from "./common/math";
+import { getPeaks } from "./common/peak-detection";
+import type { Vector2, Vector3 } from "./common/numeric-types";
+import { dotProduct3, getMagnitude, normalize, scaleVector, subtractVectors } from "./common/vectors";
+import { earthEquatorialRadius, earthPolarRadius, moonMeanRadius } from "./constants";
+import { Ephemeris } from "./ephemeris";
+import type { TimeRange } from "./state-types";
+import { AstronomicalTime, getAstronomicalTime } from "./time";
+
+export type ObserverLocation = {
+  longitudeDegrees: number;
+  latitudeDegrees: number;
+  altitudeInM: number;
+};
+
+export type TopocentricMoonPosition = {
+  time: AstronomicalTime;
+  // Distance in km from the observer to the Moon's center.
+  distance: number;
+  // Geometric altitude of the Moon's center above the observer's horizon plane (radians).
+  altitude: number;
+  // Azimuth measured clockwise from North (radians, 0 to 2π).
+  azimuth: number;
+  isAboveHorizon: boolean;
+  // The sea-level point on the line between the Earth's and Moon's centers, as [longitude, latitude] in radians.
+  subLunarCoordinates: Vector2;
+};
+
+export type TopocentricMoonAppearance = TopocentricMoonPosition & {
+  // Apparent diameter of the Moon's disk (radians).
+  angularDiameter: number;
+  // Fraction of the Moon's disk that is lit, as seen by the observer (0 to 1).
+  illuminatedFraction: number;
+};
+
+export type RiseSetTransit = {
+  rise: Date | null;
+  transit: Date;
+  set: Date | null;
+};
+
+// Standard atmospheric refraction at the horizon.
+const horizonRefraction = degToRad(34 / 60);
+
+// The Moon transits roughly every 24h50m, and rises and sets within about 12 hours of each transit
+// except at high latitudes, where it may not rise or set at all.
+const transitSearchRangeSeconds = 60 * 60 * 6;
+const riseSetSearchRangeSeconds = 60 * 60 * 16;
+const searchStepSeconds = 60 * 10;
+const peakRangeThresholdMilliseconds = 1000 * 10;
+const riseSetAltitudeTolerance = degToRad(0.1);
+
+type ObserverFrame = {
+  position: Vector3;
+  up: Vector3;
+  north: Vector3;
+  east: Vector3;
+};
+
+export function getTopocentricMoonPosition(
+  ephemeris: Ephemeris,
+  observer: ObserverLocation,
+  time: AstronomicalTime
+): TopocentricMoonPosition {
+  return getTopocentricMoonPositionInFrame(ephemeris, getObserverFrame(observer), time);
+}
+
+/**
+ * Gets the Moon's position relative to the observer along with how large and how fully lit it appears.
+ */
+export function getTopocentricMoonAppearance(
+  ephemeris: Ephemeris,
+  observer: ObserverLocation,
+  time: AstronomicalTime
+): TopocentricMoonAppearance {
+  const frame = getObserverFrame(observer);
+  const position = getTopocentricMoonPositionInFrame(ephemeris, frame, time);
+
+  const { earthPosition, moonPosition, sunPosition } = getEarthMoonAndSunPositions(ephemeris, time);
+  const earthRotation = getEarthRotation(time);
+  const localMoonPosition = getEarthFixedPosition(moonPosition, earthPosition, earthRotation);
+  const localSunPosition = getEarthFixedPosition(sunPosition, earthPosition, earthRotation);
+
+  // The phase angle is the angle at the Moon between the Sun and the observer.
+  const moonToSun = normalize(subtractVectors(localSunPosition, localMoonPosition));
+  const moonToObserver = normalize(subtractVectors(frame.position, localMoonPosition));
+  const phaseAngle = Math.acos(dotProduct3(moonToSun, moonToObserver));
+
+  return {
+    ...position,
+    angularDiameter: 2 * Math.asin(moonMeanRadius / position.distance),
+    illuminatedFraction: (1 + Math.cos(phaseAngle)) / 2,
+  };
+}
+
+/**
+ * Gets the Moon's position relative to the observer at each step of the time range (inclusive).
+ */
+export function getTopocentricMoonPositions(
+  ephemeris: Ephemeris,
+  observer: ObserverLocation,
+  timeRange: TimeRange,
+  stepSeconds: number
+): TopocentricMoonPosition[] {
+  const frame = getObserverFrame(observer);
+  const { startDate, endDate } = timeRange;
+  return seqStep(startDate.getTime(), endDate.getTime(), stepSeconds * 1000).map((unixTime) =>
+    getTopocentricMoonPositionInFrame(ephemeris, frame, getAstronomicalTime(new Date(unixTime)))
+  );
+}
+
+/**
+ * Gets the position at which the Moon is closest to the observer while above the horizon,
+ * or null if it never rises.
+ */
+export function getClosestVisiblePosition(positions: TopocentricMoonPosition[]): TopocentricMoonPosition | null {
+  const visiblePositions = positions.filter((p) => p.isAboveHorizon);
+  if (visiblePositions.length === 0) {
+    return null;
+  }
+
+  return maxByProperty(visiblePositions, (p) => -p.distance).item;
+}
+
+/**
+ * Gets the transit (highest altitude) of the Moon closest to the specified date, and the times its upper limb
+ * crosses the horizon either side of that, accounting for refraction. Rise and set are null if the Moon stays
+ * above or below the horizon.
+ */
+export function getRiseSetTransit(ephemeris: Ephemeris, observer: ObserverLocation, date: Date): RiseSetTransit {
+  const frame = getObserverFrame(observer);
+  const unixTime = date.getTime();
+
+  const transitPeaks = getPeaks(
+    getPositionsInRange(unixTime - transitSearchRangeSeconds * 1000, unixTime + transitSearchRangeSeconds * 1000),
+    (p) => p.time.date.getTime(),
+    (p) => p.altitude,
+    unixTimeToPosition,
+    peakRangeThresholdMilliseconds
+  );
+
+  if (transitPeaks.length === 0) {
+    throw new Error(`No lunar transit found within ${transitSearchRangeSeconds}s of ${date.toISOString()}`);
+  }
+
+  const transitPosition = maxByProperty(transitPeaks, (p) => p.quality).item.peak;
+  const transitTime = transitPosition.time.date.getTime();
+  if (getApparentLimbAltitude(transitPosition) < 0) {
+    return { rise: null, transit: transitPosition.time.date, set: null };
+  }
+
+  const riseTimes = getHorizonCrossingTimes(transitTime - riseSetSearchRangeSeconds * 1000, transitTime);
+  const setTimes = getHorizonCrossingTimes(transitTime, transitTime + riseSetSearchRangeSeconds * 1000);
+
+  return {
+    rise: riseTimes.length > 0 ? riseTimes[riseTimes.length - 1] : null,
+    transit: transitPosition.time.date,
+    set: setTimes.length > 0 ? setTimes[0] : null,
+  };
+
+  function getHorizonCrossingTimes(startUnixTime: number, endUnixTime: number): Date[] {
+    return getPeaks(
+      getPositionsInRange(startUnixTime, endUnixTime),
+      (p) => p.time.date.getTime(),
+      (p) => -Math.abs(getApparentLimbAltitude(p)),
+      unixTimeToPosition,
+      peakRangeThresholdMilliseconds
+    )
+      .filter((p) => -p.quality < riseSetAltitudeTolerance)
+      .map((p) => p.peak.time.date);
+  }
+
+  function getPositionsInRange(startUnixTime: number, endUnixTime: number): TopocentricMoonPosition[] {
+    return seqStep(startUnixTime, endUnixTime, searchStepSeconds * 1000).map(unixTimeToPosition);
+  }
+
+  function unixTimeToPosition(unixTime: number): TopocentricMoonPosition {
+    return getTopocentricMoonPositionInFrame(ephemeris, frame, getAstronomicalTime(new Date(unixTime)));
+  }
+}
+
+function getApparentLimbAltitude(position: TopocentricMoonPosition): number {
+  const semiDiameter = Math.asin(moonMeanRadius / position.distance);
+  return position.altitude + semiDiameter + horizonRefraction;
+}
+
+function getTopocentricMoonPositionInFrame(
+  ephemeris: Ephemeris,
+  frame: ObserverFrame,
+  time: AstronomicalTime
+): TopocentricMoonPosition {
+  const worldPositions = getEarthAndMoonPositions(ephemeris, time);
+  const earthRotation = getEarthRotation(time);
+  const moonPosition = getEarthFixedPosition(worldPositions.moonPosition, worldPositions.earthPosition, earthRotation);
+
+  const observerToMoon = subtractVectors(moonPosition, frame.position);
+  const distance = getMagnitude(observerToMoon);
+  const direction = normalize(observerToMoon);
+
+  const altitude = Math.asin(dotProduct3(direction, frame.up));
+  const azimuth = Math.atan2(dotProduct3(direction, frame.east), dotProduct3(direction, frame.north));
+
+  const moonLatLongPosition = getLatLongPosition(moonPosition);
+  const subLunarPosition = scaleVector(normalize(moonPosition), getEarthRadiusAtPosition(moonLatLongPosition));
+  const subLunarCoordinates = getGeodeticCoordinates(subLunarPosition, earthEquatorialRadius, earthPolarRadius);
+
+  return {
+    time,
+    distance,
+    altitude,
+    azimuth: azimuth < 0 ? azimuth + 2 * Math.PI : azimuth,
+    isAboveHorizon: altitude > 0,
+    subLunarCoordinates,
+  };
+}
+
+function getObserverFrame(observer: ObserverLocation): ObserverFrame {
+  const longitude = degToRad(observer.longitudeDegrees);
+  const latitude = degToRad(observer.latitudeDegrees);
+  const height = observer.altitudeInM / 1000;
+  const position = getGeodeticPosition([longitude, latitude], height, earthEquatorialRadius, earthPolarRadius);
+
+  // The horizon plane is perpendicular to the ellipsoid normal, whose direction is given by the geodetic latitude.
+  const sinLat = Math.sin(latitude);
+  const cosLat = Math.cos(latitude);
+  const sinLon = Math.sin(longitude);
+  const cosLon = Math.cos(longitude);
+  return {
+    position,
+    up: [cosLat * cosLon, cosLat * sinLon, sinLat],
+    north: [-sinLat * cosLon, -sinLat * sinLon, cosLat],
+    east: [-sinLon, cosLon, 0],
+  };
+}
@@ -6,14 +6,11 @@ Line chart based on:
 
 import { axisBottom, axisLeft, create, curveNatural, extent, line, scaleLinear, scaleUtc, zoom } from "d3";
 import type { D3ZoomEvent, ZoomBehavior, ZoomTransform } from "d3";
-import { DatePosition, getDatePosition } from "../calculations";
+import { DatePosition } from "../calculations";
 import { asCssColor } from "../common/html-utils";
-import { seqStep } from "../common/iteration";
-import { dataEndDate, dataStartDate, highlightColor } from "../constants";
-import type { State } from "../state-types";
+import { highlightColor } from "../constants";
+import type { State, TimeRange } from "../state-types";
 import type { D3DatalessSelection, D3ScaleLinear, D3ScaleTime } from "./d3-alias-types";
-import { Ephemeris } from "../ephemeris";
-import { getAstronomicalTime } from "../time";
 import { getZoomFactors, ZoomExtents } from "./d3-helpers";
 
 const lineColor = asCssColor([...highlightColor, 1]);
@@ -24,12 +21,8 @@ const zoomExtents: ZoomExtents = {
 };
 
 export async function run(container: HTMLElement, state: State) {
-  const ephemeris = await state.ephPromise;
-  const datePositions = getDatePositions(ephemeris);
-
-  state.datePositions.setValue(datePositions);
-
-  const { startDate, endDate } = state.timeRange.getValue();
+  const timeRange = state.timeRange.getValue();
+  const { startDate, endDate } = timeRange;
 
   const viewComponents = createViewComponents();
   container.append(viewComponents.svg.node()!);
@@ -44,7 +37,7 @@ export async function run(container: HTMLElement, state: State) {
   };
 
   const viewData: ViewData = {
-    datePositions: datePositions.filter((dp) => dp.date >= startDate && dp.date < endDate),
+    datePositions: await getDatePositionsOrShowError(state, timeRange, viewComponents, viewDimensions),
     startDate,
     endDate,
   };
@@ -58,12 +51,53 @@ export async function run(container: HTMLElement, state: State) {
   });
 
   resizeObserver.observe(container);
-  state.timeRange.subscribe(({ startDate, endDate }) => {
-    viewData.datePositions = datePositions.filter((dp) => dp.date >= startDate && dp.date < endDate);
-    viewData.startDate = startDate;
-    viewData.endDate = endDate;
+  state.timeRange.subscribe(updateDatePositions);
+
+  // The range may have changed while the initial positions were being calculated.
+  if (state.timeRange.getValue() !== timeRange) {
+    updateDatePositions(state.timeRange.getValue());
+  }
+
+  async function updateDatePositions(timeRange: TimeRange) {
+    const datePositions = await getDatePositionsOrShowError(state, timeRange, viewComponents, viewDimensions);
+    if (state.timeRange.getValue() !== timeRange) {
+      // Superseded while the positions were being calculated.
+      return;
+    }
+
+    viewData.datePositions = datePositions;
+    viewData.startDate = timeRange.startDate;
+    viewData.endDate = timeRange.endDate;
     updateViewComponents(viewComponents, viewDimensions, viewData);
-  });
+  }
+}
+
+/**
+ * Gets the positions from the ephemeris worker, showing the error in the chart instead if they can't be calculated.
+ */
+async function getDatePositionsOrShowError(
+  state: State,
+  timeRange: TimeRange,
+  viewComponents: ViewComponents,
+  viewDimensions: ViewDimensions
+): Promise<DatePosition[]> {
+  let datePositions: DatePosition[] = [];
+  let errorMessage = "";
+  try {
+    datePositions = await state.ephemerisWorker.getDatePositions(timeRange);
+  } catch (err) {
+    errorMessage = `Unable to calculate distances: ${err instanceof Error ? err.message : err}`;
+  }
+
+  // Leave the message for the current range if this request was superseded.
+  if (state.timeRange.getValue() === timeRange) {
+    viewComponents.errorText
+      .attr("x", viewDimensions.marginLeft + 10)
+      .attr("y", viewDimensions.marginTop + 20)
+      .text(errorMessage);
+  }
+
+  return datePositions;
 }
 
 function createViewComponents(): ViewComponents {
@@ -90,6 +124,9 @@ function createViewComponents(): ViewComponents {
   const xAxis = svg.append("g");
   const yAxis = svg.append("g");
 
+  // Add a message for when the distances can't be calculated.
+  const errorText = svg.append("text").attr("fill", "currentColor");
+
   return {
     svg,
     clipRect,
@@ -99,6 +136,7 @@ function createViewComponents(): ViewComponents {
     xAxis,
     yAxis,
     path,
+    errorText,
     zoomBehavior,
   };
 }
@@ -178,13 +216,6 @@ function updateViewComponents(viewComponents: ViewComponents, viewDimensions: Vi
     .attr("transform", `translate(${viewDimensions.marginLeft},0)`);
 }
 
-function getDatePositions(ephemeris: Ephemeris): DatePosition[] {
-  return seqStep(dataStartDate.getTime(), dataEndDate.getTime(), 1000 * 60 * 60 * 24).map<DatePosition>((unixTime) => {
-    const date = new Date(unixTime);
-    return getDatePosition(ephemeris, getAstronomicalTime(date));
-  });
-}
-
 type ViewDimensions = {
   width: number;
   height: number;
@@ -209,5 +240,6 @@ type ViewComponents = {
   xAxis: D3DatalessSelection<SVGGElement>;
   yAxis: D3DatalessSelection<SVGGElement>;
   path: D3DatalessSelection<SVGPathElement>;
+  errorText: D3DatalessSelection<SVGTextElement>;
   zoomBehavior: ZoomBehavior<SVGSVGElement, undefined>;
 };
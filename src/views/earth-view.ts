@@ -43,6 +43,7 @@ import { getProximityLine } from "../proximity-line";
 import type { Perigee, State } from "../state-types";
 import { overlay } from "../styles/site.module.css";
 import { AstronomicalTime, getAstronomicalTime } from "../time";
+import { loadEphemerisRange } from "../time-range";
 import { createVertexAttribsInfo } from "../webgl/attributes";
 import { addZoomHandler } from "../webgl/canvas-interaction";
 import { MultiViewContext } from "../webgl/context";
@@ -186,11 +187,19 @@ export async function run(context: MultiViewContext, state: State) {
     pickingRenderTarget: createPickingRenderTarget(gl, "RGBA16F"),
   };
 
+  // The camera may have been moved in a linked view.
+  const camera = state.earthCamera.getValue();
+  if (camera !== null) {
+    viewInfo.cameraDistance = camera.distance;
+    viewInfo.viewAdjustment.theta = camera.theta;
+    viewInfo.viewAdjustment.phi = camera.phi;
+  }
+
   state.selectedPerigee.subscribe((p) => runWithDate(context, state, resources, p));
   runWithDate(context, state, resources, state.selectedPerigee.getValue());
 }
 
-function runWithDate(
+async function runWithDate(
   context: MultiViewContext,
   state: State,
   viewResources: ViewResources,
@@ -203,6 +212,13 @@ function runWithDate(
     return;
   }
 
+  // The perigees are found by the ephemeris worker, so the data around them may not be loaded here yet.
+  const perigeeRange = { startDate: selectedPerigee.date, endDate: selectedPerigee.date };
+  await loadEphemerisRange(viewResources.ephemeris, perigeeRange);
+  if (state.selectedPerigee.getValue() !== selectedPerigee) {
+    return;
+  }
+
   setupSlider(context.virtualCanvas, "time", {
     value: 0,
     updated: (v) => updateTime(new Date(selectedPerigee.date.getTime() + timeStepMs * v)),
@@ -355,13 +371,19 @@ function runWithDate(
     viewInfo.viewAdjustment.theta = clamp(viewInfo.viewAdjustment.theta - thetaDelta, -Math.PI / 2, Math.PI / 2);
     viewInfo.viewAdjustment.phi -= phiDelta;
 
-    context.multiSceneDrawer.requestRedraw(context.virtualCanvas);
+    updateCamera();
   }
 
   function handleZoom(_coords: CanvasCoordinates, distanceScaleFactor: number) {
     const allowedDistance = viewInfo.cameraDistance - earthEquatorialRadius - viewInfo.nearLimit;
     const newDistance = allowedDistance * distanceScaleFactor + earthEquatorialRadius + viewInfo.nearLimit;
     viewInfo.cameraDistance = newDistance;
+    updateCamera();
+  }
+
+  function updateCamera() {
+    const { cameraDistance, viewAdjustment } = viewInfo;
+    state.earthCamera.setValue({ distance: cameraDistance, theta: viewAdjustment.theta, phi: viewAdjustment.phi });
     context.multiSceneDrawer.requestRedraw(context.virtualCanvas);
   }
 
@@ -634,11 +656,11 @@ function getCommonLitObjectUniformValues(
 function getSceneInfo(ephemeris: Ephemeris, date: Date): SceneInfo {
   const time = getAstronomicalTime(date);
 
-  const { positions: embPos, velocities: embVel } = ephemeris.getSsbToEmb(time.julianDays);
+  const { positions: embPos, velocities: embVel } = ephemeris.getSsbToEmb(time.tdb.julianDays);
   const eclipticPlane = getEclipticPlane(embPos as Vector3, embVel as Vector3);
   const eclipticPlaneLocalWorldTransforms = getLocalWorldTransforms([eclipticPlane.rotation]);
 
-  const ssbToSun = ephemeris.getSsbToSun(time.julianDays);
+  const ssbToSun = ephemeris.getSsbToSun(time.tdb.julianDays);
   const sunPosition = ssbToSun.positions as Vector3;
 
   const { moonPosition, earthPosition } = getEarthAndMoonPositions(ephemeris, time);
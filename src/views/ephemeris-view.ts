@@ -0,0 +1,90 @@
+import { getElementByIdOrError } from "../common/html-utils";
+import { toFriendlyUTC } from "../common/text-utils";
+import { Ephemeris } from "../ephemeris";
+import { createJplDeEphemeris, readJplDeHeader } from "../jplde-file";
+import { State } from "../state-types";
+import { deleteJplDeFile, getIndexedDb, readJplDeFile, storeJplDeFile } from "../storage";
+import { tdbJulianDaysToDate } from "../time";
+
+type ViewResources = {
+  fileInput: HTMLInputElement;
+  resetButton: HTMLButtonElement;
+  status: HTMLElement;
+};
+
+export async function run(_container: HTMLElement, state: State) {
+  const resources: ViewResources = {
+    fileInput: getElementByIdOrError("ephemeris-file-input"),
+    resetButton: getElementByIdOrError("ephemeris-reset-button"),
+    status: getElementByIdOrError("ephemeris-status"),
+  };
+
+  resources.fileInput.addEventListener("change", () => {
+    const file = resources.fileInput.files?.[0];
+    if (file) {
+      loadFile(file, resources);
+    }
+  });
+
+  resources.resetButton.addEventListener("click", () => resetToBuiltIn(resources));
+
+  const db = await getIndexedDb();
+  const jplDeFile = db === null ? null : await readJplDeFile(db);
+  resources.resetButton.disabled = jplDeFile === null;
+  resources.fileInput.disabled = db === null;
+
+  try {
+    const ephemeris = await state.ephPromise;
+    const source = jplDeFile === null ? "Built-in ephemeris" : await getJplDeDescription(jplDeFile);
+    resources.status.textContent = `${source}: ${getRangeText(ephemeris)}`;
+  } catch (err) {
+    resources.status.textContent = `Unable to load ephemeris: ${err}`;
+  }
+}
+
+async function loadFile(file: File, resources: ViewResources) {
+  resources.status.textContent = `Reading ${file.name}...`;
+  try {
+    // Check the file can be read before storing it.
+    const buffer = await file.arrayBuffer();
+    createJplDeEphemeris(new DataView(buffer));
+
+    const db = await getIndexedDb();
+    if (db === null) {
+      throw new Error("Browser storage is unavailable");
+    }
+
+    await storeJplDeFile(db, file);
+    location.reload();
+  } catch (err) {
+    resources.status.textContent = `Unable to use ${file.name}: ${err instanceof Error ? err.message : err}`;
+  }
+}
+
+async function resetToBuiltIn(resources: ViewResources) {
+  const db = await getIndexedDb();
+  if (db === null) {
+    return;
+  }
+
+  try {
+    await deleteJplDeFile(db);
+    location.reload();
+  } catch (err) {
+    resources.status.textContent = `Unable to remove JPL DE file: ${err}`;
+  }
+}
+
+async function getJplDeDescription(jplDeFile: Blob): Promise<string> {
+  // The header is in the first few kilobytes.
+  const headerBuffer = await jplDeFile.slice(0, 8192).arrayBuffer();
+  const { title } = readJplDeHeader(new DataView(headerBuffer));
+  return jplDeFile instanceof File ? `${title} (${jplDeFile.name})` : title;
+}
+
+function getRangeText(ephemeris: Ephemeris): string {
+  const options = { showTime: false, showUTC: false };
+  const startDate = tdbJulianDaysToDate(ephemeris.getStartJulianDate());
+  const endDate = tdbJulianDaysToDate(ephemeris.getEndJulianDate());
+  return `${toFriendlyUTC(startDate, options)} to ${toFriendlyUTC(endDate, options)}`;
+}
@@ -0,0 +1,52 @@
+import { downloadFile, getElementByIdOrError } from "../common/html-utils";
+import { getSuperPerigees } from "../lunar-events";
+import { getPerigeeExportFile, getPerigeeExportRecords, PerigeeExportFormat } from "../perigee-export";
+import { State } from "../state-types";
+
+type ViewResources = {
+  selection: HTMLSelectElement;
+  buttons: { [format in PerigeeExportFormat]: HTMLButtonElement };
+  status: HTMLElement;
+};
+
+export function run(_container: HTMLElement, state: State) {
+  const resources: ViewResources = {
+    selection: getElementByIdOrError("perigee-export-selection"),
+    buttons: {
+      csv: getElementByIdOrError("perigee-export-csv-button"),
+      json: getElementByIdOrError("perigee-export-json-button"),
+      ics: getElementByIdOrError("perigee-export-ics-button"),
+    },
+    status: getElementByIdOrError("perigee-export-status"),
+  };
+
+  (Object.keys(resources.buttons) as PerigeeExportFormat[]).forEach((format) => {
+    resources.buttons[format].addEventListener("click", () => exportPerigees(format, state, resources));
+  });
+
+  resources.selection.addEventListener("change", () => updateStatus(state, resources));
+  state.lunarEvents.subscribe(() => updateStatus(state, resources));
+  state.timeRange.subscribe(() => updateStatus(state, resources));
+  updateStatus(state, resources);
+}
+
+function exportPerigees(format: PerigeeExportFormat, state: State, resources: ViewResources) {
+  const records = getRecords(state, resources);
+  if (records.length > 0) {
+    downloadFile(getPerigeeExportFile(format, records, state.timeRange.getValue()));
+  }
+}
+
+function updateStatus(state: State, resources: ViewResources) {
+  const count = getRecords(state, resources).length;
+  Object.values(resources.buttons).forEach((button) => (button.disabled = count === 0));
+  resources.status.textContent =
+    count === 0 ? "No perigees in the time range" : `${count} perigee${count === 1 ? "" : "s"}`;
+}
+
+function getRecords(state: State, resources: ViewResources) {
+  const { perigees } = state.lunarEvents.getValue();
+  const superPerigees = getSuperPerigees(perigees);
+  const selected = resources.selection.value === "super" ? superPerigees : perigees;
+  return getPerigeeExportRecords(selected, superPerigees, state.timeRange.getValue());
+}
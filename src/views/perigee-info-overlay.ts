@@ -3,7 +3,9 @@ import { radToDeg } from "../common/math";
 import { toFriendlyUTC } from "../common/text-utils";
 import { scaleVector } from "../common/vectors";
 import { highlightColor, moonlightColor } from "../constants";
-import type { Perigee } from "../state-types";
+import { getLunarEclipseTypeName } from "../lunar-eclipses";
+import { getSolarEclipseTypeName } from "../solar-eclipses";
+import { Apogee, LunarEclipseType, Perigee } from "../state-types";
 import { overlay } from "../styles/site.module.css";
 import { Selection as D3Selection } from "d3";
 
@@ -12,6 +14,13 @@ const perigeeDisplayHtml = `
 <div>distance: <span data-var="distance"></span>km</div>
 <div>∠ from full moon: <span data-var="angle"></span>°</div>
 <div><span data-var="angle-info"></span></div>
+<div><span data-var="eclipse-info"></span></div>
+`;
+
+const apogeeDisplayHtml = `
+<div>apogee: <span data-var="date"></span></div>
+<div>distance: <span data-var="distance"></span>km</div>
+<div><span data-var="info"></span></div>
 `;
 
 export type PerigeeElems = {
@@ -19,6 +28,7 @@ export type PerigeeElems = {
   distance: Element;
   angle: Element;
   angleInfo: Element;
+  eclipseInfo: Element;
 };
 
 function getPerigeeElems(parent: Element): PerigeeElems {
@@ -27,6 +37,21 @@ function getPerigeeElems(parent: Element): PerigeeElems {
     distance: parent.querySelector("span[data-var='distance']")!,
     angle: parent.querySelector("span[data-var='angle']")!,
     angleInfo: parent.querySelector("span[data-var='angle-info']")!,
+    eclipseInfo: parent.querySelector("span[data-var='eclipse-info']")!,
+  };
+}
+
+export type ApogeeElems = {
+  date: Element;
+  distance: Element;
+  info: Element;
+};
+
+function getApogeeElems(parent: Element): ApogeeElems {
+  return {
+    date: parent.querySelector("span[data-var='date']")!,
+    distance: parent.querySelector("span[data-var='distance']")!,
+    info: parent.querySelector("span[data-var='info']")!,
   };
 }
 
@@ -49,16 +74,74 @@ export function handlePerigeeMouseover(
     top: cssY,
   });
 
-  const angleExtraInfo = perigee.isSuperMoon
-    ? `${perigee.hoursFromFullMoon.toFixed(1)} hours from Super Moon`
-    : perigee.isSuperNewMoon
-    ? `${perigee.hoursFromNewMoon.toFixed(1)} hours from Super New Moon`
-    : "";
+  const { hoursFromFullMoon, hoursFromNewMoon } = perigee;
+  const angleExtraInfo =
+    perigee.isSuperMoon && hoursFromFullMoon !== null
+      ? `${hoursFromFullMoon.toFixed(1)} hours from Super Moon`
+      : perigee.isSuperNewMoon && hoursFromNewMoon !== null
+      ? `${hoursFromNewMoon.toFixed(1)} hours from Super New Moon`
+      : "";
 
   overlayElement.content.date.textContent = toFriendlyUTC(perigee.date);
   overlayElement.content.distance.textContent = perigee.moonDistance.toFixed(2);
   overlayElement.content.angle.textContent = (180 - radToDeg(perigee.angleBetweenMoonAndSun)).toFixed(1);
   overlayElement.content.angleInfo.textContent = angleExtraInfo;
+  overlayElement.content.eclipseInfo.textContent = getEclipseInfo(perigee);
+}
+
+function getEclipseInfo(perigee: Perigee): string {
+  const { solarEclipse, lunarEclipse } = perigee;
+  if (solarEclipse !== null) {
+    const { eclipseType, gamma, magnitude } = solarEclipse;
+    const typeName = getSolarEclipseTypeName(eclipseType);
+    return `${typeName} solar eclipse (γ ${gamma.toFixed(3)}, magnitude ${magnitude.toFixed(3)})`;
+  }
+
+  if (lunarEclipse !== null) {
+    const typeName = getLunarEclipseTypeName(lunarEclipse.eclipseType);
+    switch (lunarEclipse.eclipseType) {
+      case LunarEclipseType.Penumbral:
+        return `${typeName} lunar eclipse (magnitude ${lunarEclipse.magnitude.penumbral.toFixed(3)})`;
+      case LunarEclipseType.Partial:
+        return `${typeName} lunar eclipse (magnitude ${lunarEclipse.magnitude.umbral.toFixed(3)})`;
+      case LunarEclipseType.Total:
+        return `${typeName} lunar eclipse (${lunarEclipse.totalityMinutes.toFixed(0)} minutes of totality)`;
+    }
+  }
+
+  return "";
+}
+
+export function createApogeeOverlay(placementElement: Element) {
+  return createTextOverlay(placementElement, apogeeDisplayHtml, getApogeeElems, overlay);
+}
+
+export function handleApogeeMouseout(overlayElement: OverlayElement<ApogeeElems>) {
+  setAbsoluteStyleRect(overlayElement.overlay, false, {});
+}
+
+export function handleApogeeMouseover(
+  overlayElement: OverlayElement<ApogeeElems>,
+  apogee: Apogee,
+  cssX: number,
+  cssY: number
+) {
+  setAbsoluteStyleRect(overlayElement.overlay, true, {
+    left: cssX,
+    top: cssY,
+  });
+
+  const { hoursFromFullMoon, hoursFromNewMoon } = apogee;
+  const extraInfo =
+    apogee.isMicroMoon && hoursFromFullMoon !== null
+      ? `${hoursFromFullMoon.toFixed(1)} hours from Micro Moon`
+      : apogee.isMicroNewMoon && hoursFromNewMoon !== null
+      ? `${hoursFromNewMoon.toFixed(1)} hours from Micro New Moon`
+      : "";
+
+  overlayElement.content.date.textContent = toFriendlyUTC(apogee.date);
+  overlayElement.content.distance.textContent = apogee.moonDistance.toFixed(2);
+  overlayElement.content.info.textContent = extraInfo;
 }
 
 const moonCircleColor = asCssColor([...moonlightColor, 1]);
@@ -97,3 +180,14 @@ export function setPointsAppearance(
     return perigee.isSuperMoon ? deselectedMoonCircleColor : perigee.isSuperNewMoon ? "#000" : deselectedPointColor;
   }
 }
+
+export function setApogeePointsAppearance(
+  points: D3Selection<SVGCircleElement, Apogee, SVGGElement, undefined>
+): D3Selection<SVGCircleElement, Apogee, SVGGElement, undefined> {
+  // Apogees are hollow unless they coincide with a Micro Moon (dim fill) or Micro New Moon (black fill).
+  return points
+    .attr("stroke", moonCircleColor)
+    .attr("stroke-width", (a) => (a.isMicroMoon || a.isMicroNewMoon ? 2 : 1))
+    .attr("fill", (a) => (a.isMicroMoon ? deselectedMoonCircleColor : a.isMicroNewMoon ? "#000" : "none"))
+    .attr("r", 5);
+}
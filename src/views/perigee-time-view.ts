@@ -1,27 +1,22 @@
 import { axisBottom, axisLeft, create, curveNatural, extent, line, scaleLinear, scaleUtc, zoom } from "d3";
 import type { D3ZoomEvent, Selection as D3Selection, ZoomBehavior, ZoomTransform } from "d3";
-import { asCssColor, OverlayElement } from "../common/html-utils";
+import { asCssColor, OverlayElement, setupCheckbox } from "../common/html-utils";
 import { moonlightColor } from "../constants";
-import { Perigee, State } from "../state-types";
+import { Apogee, Perigee, State } from "../state-types";
 import {
+  ApogeeElems,
+  createApogeeOverlay,
   createPerigeeOverlay,
+  handleApogeeMouseout,
+  handleApogeeMouseover,
   handlePerigeeMouseout,
   handlePerigeeMouseover,
   PerigeeElems,
+  setApogeePointsAppearance,
   setPointsAppearance,
 } from "./perigee-info-overlay";
 import { D3DatalessSelection, D3ScaleLinear, D3ScaleTime } from "./d3-alias-types";
-import { Ephemeris } from "../ephemeris";
-import { getPeaks } from "../common/peak-detection";
-import {
-  DatePosition,
-  DatePositionAngles,
-  getDatePosition,
-  getDatePositionAngles,
-  getLunarEclipseMaginutude,
-} from "../calculations";
-import { getAstronomicalTime } from "../time";
-import { maxByProperty } from "../common/iteration";
+import { LunarEvents } from "../lunar-events";
 import { getZoomFactors, ZoomExtents } from "./d3-helpers";
 
 const lineColor = asCssColor([...moonlightColor, 1]);
@@ -32,9 +27,6 @@ const zoomExtents: ZoomExtents = {
 };
 
 export async function run(container: HTMLElement, state: State) {
-  const ephemeris = await state.ephPromise;
-  const datePositions = await state.datePositions.getValue();
-
   const viewComponents = createViewComponents(container);
   container.append(viewComponents.svg.node()!);
 
@@ -51,13 +43,22 @@ export async function run(container: HTMLElement, state: State) {
     startDate: new Date(),
     endDate: new Date(),
     perigees: [],
+    apogees: [],
+    showApogees: false,
     selectedPerigee: null,
     fullMoonDates: [],
   };
 
+  setupCheckbox(container, "apogees", {
+    checked: viewData.showApogees,
+    changed: (checked) => {
+      viewData.showApogees = checked;
+      updateViewComponents(viewComponents, viewDimensions, viewData, state);
+    },
+  });
+
   const { startDate, endDate } = state.timeRange.getValue();
-  updateViewData(viewData, ephemeris, datePositions, state.selectedPerigee.getValue(), startDate, endDate);
-  state.perigees.setValue(viewData.perigees);
+  updateViewData(viewData, state.lunarEvents.getValue(), state.selectedPerigee.getValue(), startDate, endDate);
 
   updateViewComponents(viewComponents, viewDimensions, viewData, state);
 
@@ -73,9 +74,9 @@ export async function run(container: HTMLElement, state: State) {
     updateViewComponents(viewComponents, viewDimensions, viewData, state);
   });
 
-  state.timeRange.subscribe(({ startDate, endDate }) => {
-    updateViewData(viewData, ephemeris, datePositions, state.selectedPerigee.getValue(), startDate, endDate);
-    state.perigees.setValue(viewData.perigees);
+  state.lunarEvents.subscribe((lunarEvents) => {
+    const { startDate, endDate } = state.timeRange.getValue();
+    updateViewData(viewData, lunarEvents, state.selectedPerigee.getValue(), startDate, endDate);
     updateViewComponents(viewComponents, viewDimensions, viewData, state);
   });
 }
@@ -106,6 +107,11 @@ function createViewComponents(container: HTMLElement): ViewComponents {
     .attr("clip-path", `url(#${clipId})`)
     .selectAll("circle");
 
+  const apogeePoints: D3Selection<SVGCircleElement, Apogee, SVGGElement, undefined> = svg
+    .append("g")
+    .attr("clip-path", `url(#${clipId})`)
+    .selectAll("circle");
+
   const fullMoonLines: D3Selection<SVGLineElement, Date, SVGGElement, undefined> = svg
     .append("g")
     .attr("clip-path", `url(#${clipId})`)
@@ -115,6 +121,7 @@ function createViewComponents(container: HTMLElement): ViewComponents {
   const yAxis = svg.append("g");
 
   const tooltipOverlay = createPerigeeOverlay(container);
+  const apogeeTooltipOverlay = createApogeeOverlay(container);
 
   return {
     svg,
@@ -126,9 +133,11 @@ function createViewComponents(container: HTMLElement): ViewComponents {
     yAxis,
     path,
     points,
+    apogeePoints,
     fullMoonLines,
     zoomBehavior,
     tooltipOverlay,
+    apogeeTooltipOverlay,
   };
 }
 
@@ -148,8 +157,11 @@ function updateViewComponents(
     .domain([viewData.startDate, viewData.endDate])
     .range([marginLeft, width - marginRight]);
 
+  const visibleApogees = viewData.showApogees ? viewData.apogees : [];
+  const distances = [...viewData.perigees, ...visibleApogees].map((dp) => dp.moonDistance);
+
   viewComponents.yScale = viewComponents.yScale
-    .domain(extent(viewData.perigees, (p) => p.moonDistance) as [number, number]) // cast needed: https://stackoverflow.com/a/75465468
+    .domain(extent(distances) as [number, number]) // cast needed: https://stackoverflow.com/a/75465468
     .range([height - marginBottom, marginTop])
     .nice();
 
@@ -212,6 +224,22 @@ function updateViewComponents(
     .on("mouseout", () => handlePerigeeMouseout(viewComponents.tooltipOverlay))
     .on("pointerdown", (_e, p) => state.selectedPerigee.setValue(p));
 
+  viewComponents.apogeePoints = viewComponents.apogeePoints
+    .data(visibleApogees)
+    .join("circle")
+    .call(setApogeePointsAppearance)
+    .attr("cx", (a) => xScale(a.date))
+    .attr("cy", (a) => viewComponents.yScale(a.moonDistance))
+    .on("mouseover", (_e, a) =>
+      handleApogeeMouseover(
+        viewComponents.apogeeTooltipOverlay,
+        a,
+        xScale(a.date),
+        viewComponents.yScale(a.moonDistance)
+      )
+    )
+    .on("mouseout", () => handleApogeeMouseout(viewComponents.apogeeTooltipOverlay));
+
   viewComponents.fullMoonLines = viewComponents.fullMoonLines
     .data(viewData.fullMoonDates)
     .join("line")
@@ -236,12 +264,9 @@ function updateViewComponents(
     .attr("transform", `translate(${viewDimensions.marginLeft},0)`);
 }
 
-const peakRangeThresholdSeconds = 1000 * 30;
-
 function updateViewData(
   viewData: ViewData,
-  ephemeris: Ephemeris,
-  allDatePositions: DatePosition[],
+  lunarEvents: LunarEvents,
   selectedPerigee: Perigee | null,
   startDate: Date,
   endDate: Date
@@ -249,82 +274,12 @@ function updateViewData(
   viewData.startDate = startDate;
   viewData.endDate = endDate;
 
-  const datePositionAngles = allDatePositions
-    .filter((dp) => dp.date >= startDate && dp.date < endDate)
-    .map(getDatePositionAngles);
-
-  viewData.fullMoonDates = getPeaks(
-    datePositionAngles,
-    (dpa) => dpa.date.getTime(),
-    (dpa) => dpa.angleBetweenMoonAndSun,
-    unixTimeToDatePositionAngles,
-    peakRangeThresholdSeconds
-  ).map((p) => p.peak.date);
-
-  const newMoonDates = getPeaks(
-    datePositionAngles,
-    (dpa) => dpa.date.getTime(),
-    (dpa) => -dpa.angleBetweenMoonAndSun,
-    unixTimeToDatePositionAngles,
-    peakRangeThresholdSeconds
-  ).map((p) => p.peak.date);
-
-  // Get the max/min moon distance by year for supermoon calculations.
-  const yearMaxMinDistance = new Map<number, { max: number; min: number }>();
-  Map.groupBy(datePositionAngles, (dp) => dp.date.getFullYear()).forEach((dps, year) => {
-    yearMaxMinDistance.set(year, {
-      max: maxByProperty(dps, (dd) => dd.moonDistance).value,
-      min: -maxByProperty(dps, (dd) => -dd.moonDistance).value,
-    });
-  });
-
-  viewData.perigees = getPeaks(
-    datePositionAngles,
-    (dpa) => dpa.date.getTime(),
-    (dpa) => -dpa.moonDistance,
-    unixTimeToPerigee,
-    peakRangeThresholdSeconds
-  ).map((p) => datePositionAnglesToPerigee(p.peak));
+  viewData.fullMoonDates = lunarEvents.fullMoons.map((s) => s.date);
+  viewData.perigees = lunarEvents.perigees;
+  viewData.apogees = lunarEvents.apogees;
 
   viewData.selectedPerigee =
     selectedPerigee !== null && viewData.perigees.includes(selectedPerigee) ? selectedPerigee : null;
-
-  function unixTimeToPerigee(unixTime: number): Perigee {
-    const datePositionAngles = unixTimeToDatePositionAngles(unixTime);
-    return datePositionAnglesToPerigee(datePositionAngles);
-  }
-
-  function unixTimeToDatePositionAngles(unixTime: number): DatePositionAngles {
-    const date = new Date(unixTime);
-    const datePosition = getDatePosition(ephemeris, getAstronomicalTime(date));
-    return getDatePositionAngles(datePosition);
-  }
-
-  function datePositionAnglesToPerigee(datePositionAngles: DatePositionAngles): Perigee {
-    const unixTime = datePositionAngles.date.getTime();
-    const hoursFromFullMoon =
-      -maxByProperty(viewData.fullMoonDates, (fullMoonDate) => -Math.abs(fullMoonDate.getTime() - unixTime)).value /
-      (1000 * 60 * 60);
-    const hoursFromNewMoon =
-      -maxByProperty(newMoonDates, (newMoonDate) => -Math.abs(newMoonDate.getTime() - unixTime)).value /
-      (1000 * 60 * 60);
-
-    const maxMinDistance = yearMaxMinDistance.get(datePositionAngles.date.getFullYear())!;
-    const superMoonThreshold = (maxMinDistance.max - maxMinDistance.min) * 0.1 + maxMinDistance.min;
-    const isSuperMoon = hoursFromFullMoon < 24 && datePositionAngles.moonDistance < superMoonThreshold;
-    const isSuperNewMoon = hoursFromNewMoon < 24 && datePositionAngles.moonDistance < superMoonThreshold;
-
-    const lunarEclipseMagnitude = getLunarEclipseMaginutude(datePositionAngles);
-
-    return {
-      ...datePositionAngles,
-      hoursFromFullMoon,
-      hoursFromNewMoon,
-      isSuperMoon,
-      isSuperNewMoon,
-      lunarEclipseMagnitude,
-    };
-  }
 }
 
 type ViewDimensions = {
@@ -338,6 +293,8 @@ type ViewDimensions = {
 
 type ViewData = {
   perigees: Perigee[];
+  apogees: Apogee[];
+  showApogees: boolean;
   selectedPerigee: Perigee | null;
   fullMoonDates: Date[];
   startDate: Date;
@@ -354,7 +311,9 @@ type ViewComponents = {
   yAxis: D3DatalessSelection<SVGGElement>;
   path: D3DatalessSelection<SVGPathElement>;
   points: D3Selection<SVGCircleElement, Perigee, SVGGElement, undefined>;
+  apogeePoints: D3Selection<SVGCircleElement, Apogee, SVGGElement, undefined>;
   fullMoonLines: D3Selection<SVGLineElement, Date, SVGGElement, undefined>;
   zoomBehavior: ZoomBehavior<SVGSVGElement, undefined>;
   tooltipOverlay: OverlayElement<PerigeeElems>;
+  apogeeTooltipOverlay: OverlayElement<ApogeeElems>;
 };
@@ -197,9 +197,14 @@ async function runWithNewSelection(context: MultiViewContext, state: State, reso
   // Every time new data is selected, clean up previous resources.
   cleanup.clean();
 
-  viewInfo.cameraDistance = initialCameraDistance;
-  viewInfo.tiltAngle = initialTiltAngle;
-  viewInfo.rotation = 0;
+  // Keep the camera for a location requested along with the selection (e.g. from a link), otherwise reset it.
+  const requestedLocation = state.requestedLocation.getValue();
+  state.requestedLocation.setValue(null);
+  const camera = requestedLocation !== null ? state.proximityMapCamera.getValue() : null;
+  viewInfo.cameraDistance = camera?.distance ?? initialCameraDistance;
+  viewInfo.tiltAngle = camera?.tiltAngle ?? initialTiltAngle;
+  viewInfo.rotation = camera?.rotation ?? 0;
+  state.proximityMapCamera.setValue(camera);
 
   if (resources.proximityShapeData === null) {
     return;
@@ -210,6 +215,12 @@ async function runWithNewSelection(context: MultiViewContext, state: State, reso
   cleanup.add(terrainData);
 
   const closestPoint = terrainData.getTopClosestPoints(1)[0];
+  const requestedPosition =
+    requestedLocation &&
+    terrainData.getMapPositionFromLatLong(
+      degToRad(requestedLocation.longitudeDegrees),
+      degToRad(requestedLocation.latitudeDegrees)
+    );
 
   const readyResources: ReadyResources = {
     ...resources,
@@ -218,7 +229,7 @@ async function runWithNewSelection(context: MultiViewContext, state: State, reso
     closestPoint,
   };
 
-  setPosition(readyResources, state, terrainData.getTargetPosition(closestPoint.positionOnTile));
+  setPosition(readyResources, state, requestedPosition ?? terrainData.getTargetPosition(closestPoint.positionOnTile));
 
   runWithReadyResources(context, state, readyResources);
 }
@@ -327,12 +338,12 @@ function runWithReadyResources(context: MultiViewContext, state: State, resource
 
   function updateViewRotation(rotation: number) {
     viewInfo.rotation = -rotation;
-    context.multiSceneDrawer.requestRedraw(context.virtualCanvas);
+    updateCamera();
   }
 
   function updateViewTilt(tiltAngle: number) {
     viewInfo.tiltAngle = tiltAngle;
-    context.multiSceneDrawer.requestRedraw(context.virtualCanvas);
+    updateCamera();
   }
 
   function updatePinCount(pinCount: number) {
@@ -373,6 +384,12 @@ function runWithReadyResources(context: MultiViewContext, state: State, resource
 
   function handleZoom(_coords: CanvasCoordinates, distanceScaleFactor: number) {
     viewInfo.cameraDistance *= distanceScaleFactor;
+    updateCamera();
+  }
+
+  function updateCamera() {
+    const { cameraDistance, rotation, tiltAngle } = viewInfo;
+    state.proximityMapCamera.setValue({ distance: cameraDistance, rotation, tiltAngle });
     context.multiSceneDrawer.requestRedraw(context.virtualCanvas);
   }
 
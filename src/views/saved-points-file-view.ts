@@ -0,0 +1,109 @@
+import { downloadFile, getElementByIdOrError } from "../common/html-utils";
+import {
+  getSavedPointsBackupFile,
+  getSavedPointsFile,
+  readSavedPointsBackupFile,
+  readSavedPointsFile,
+  SavedPointFileFormat,
+} from "../saved-point-files";
+import { mergeSavedPoints } from "../saved-points";
+import { State } from "../state-types";
+import { getEphemerisTimeRange } from "../time-range";
+
+type ViewResources = {
+  formatSelect: HTMLSelectElement;
+  exportButton: HTMLButtonElement;
+  importInput: HTMLInputElement;
+  backupButton: HTMLButtonElement;
+  restoreInput: HTMLInputElement;
+  status: HTMLElement;
+};
+
+export function run(_container: HTMLElement, state: State) {
+  const resources: ViewResources = {
+    formatSelect: getElementByIdOrError("saved-points-export-format"),
+    exportButton: getElementByIdOrError("saved-points-export-button"),
+    importInput: getElementByIdOrError("saved-points-import-input"),
+    backupButton: getElementByIdOrError("saved-points-backup-button"),
+    restoreInput: getElementByIdOrError("saved-points-restore-input"),
+    status: getElementByIdOrError("saved-points-file-status"),
+  };
+
+  resources.exportButton.addEventListener("click", () => {
+    const format = resources.formatSelect.value as SavedPointFileFormat;
+    downloadFile(getSavedPointsFile(format, state.savedPoints.getValue()));
+  });
+
+  resources.importInput.addEventListener("change", () => {
+    const file = resources.importInput.files?.[0];
+    if (file) {
+      importFile(file, state, resources);
+    }
+  });
+
+  resources.backupButton.addEventListener("click", () => {
+    downloadFile(getSavedPointsBackupFile(state.savedPoints.getValue()));
+  });
+
+  resources.restoreInput.addEventListener("change", () => {
+    const file = resources.restoreInput.files?.[0];
+    if (file) {
+      restoreFile(file, state, resources);
+    }
+  });
+
+  state.savedPoints.subscribe(() => updateButtons(state, resources));
+  updateButtons(state, resources);
+}
+
+function updateButtons(state: State, resources: ViewResources) {
+  const hasPoints = state.savedPoints.getValue().length > 0;
+  resources.exportButton.disabled = !hasPoints;
+  resources.backupButton.disabled = !hasPoints;
+}
+
+async function importFile(file: File, state: State, resources: ViewResources) {
+  resources.status.textContent = `Reading ${file.name}...`;
+  try {
+    const ephemerisTimeRange = getEphemerisTimeRange(await state.ephPromise);
+    const { points, invalidCount, outOfRangeCount } = await readSavedPointsFile(file, ephemerisTimeRange);
+    const merge = mergeSavedPoints(state.savedPoints.getValue(), points);
+    if (merge.addedCount > 0) {
+      state.savedPoints.setValue(merge.points);
+    }
+
+    const skipped = [
+      merge.duplicateCount > 0 ? `${merge.duplicateCount} already saved` : "",
+      invalidCount > 0 ? `${invalidCount} missing a valid location, elevation, distance or time` : "",
+      outOfRangeCount > 0 ? `${outOfRangeCount} outside the ephemeris dates` : "",
+    ].filter((text) => text !== "");
+
+    const skippedText = skipped.length > 0 ? ` Skipped ${skipped.join(", ")}.` : "";
+    const totalCount = points.length + invalidCount + outOfRangeCount;
+    resources.status.textContent = `Imported ${merge.addedCount} of ${totalCount}.${skippedText}`;
+  } catch (err) {
+    resources.status.textContent = `Unable to import ${file.name}: ${err instanceof Error ? err.message : err}`;
+  }
+
+  // Allow the same file to be chosen again.
+  resources.importInput.value = "";
+}
+
+async function restoreFile(file: File, state: State, resources: ViewResources) {
+  resources.status.textContent = `Reading ${file.name}...`;
+  try {
+    const { points, invalidCount } = await readSavedPointsBackupFile(file);
+    const currentCount = state.savedPoints.getValue().length;
+    const skippedText = invalidCount > 0 ? ` (skipping ${invalidCount} invalid)` : "";
+    if (confirm(`Replace ${currentCount} saved locations with ${points.length} from the backup${skippedText}?`)) {
+      state.savedPoints.setValue(points);
+      resources.status.textContent = `Restored ${points.length} saved locations from ${file.name}.`;
+    } else {
+      resources.status.textContent = "";
+    }
+  } catch (err) {
+    resources.status.textContent = `Unable to restore ${file.name}: ${err instanceof Error ? err.message : err}`;
+  }
+
+  resources.restoreInput.value = "";
+}
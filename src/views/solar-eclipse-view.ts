@@ -0,0 +1,80 @@
+import { ElemsWithData, getElementByIdOrError, updateElementsFromData } from "../common/html-utils";
+import { toFriendlyUTC } from "../common/text-utils";
+import { LunarEvents } from "../lunar-events";
+import { getSolarEclipseTypeName } from "../solar-eclipses";
+import { SolarEclipse, SolarEclipseType, State } from "../state-types";
+import { hidden } from "../styles/site.module.css";
+
+const tableRowContentHtml = `
+  <td data-label="Greatest Eclipse" data-var="date"></td>
+  <td data-label="Type" data-var="type"></td>
+  <td data-label="Gamma" data-var="gamma"></td>
+  <td data-label="Magnitude" data-var="magnitude"></td>
+`;
+
+type TableRowElems = {
+  tr: HTMLTableRowElement;
+  date: Element;
+  type: Element;
+  gamma: Element;
+  magnitude: Element;
+};
+
+function getTableRowElems(tr: HTMLTableRowElement): TableRowElems {
+  return {
+    tr,
+    date: tr.querySelector("td[data-var='date']")!,
+    type: tr.querySelector("td[data-var='type']")!,
+    gamma: tr.querySelector("td[data-var='gamma']")!,
+    magnitude: tr.querySelector("td[data-var='magnitude']")!,
+  };
+}
+
+export function run(container: HTMLElement, state: State) {
+  const resources: ViewResources = {
+    container,
+    tableBody: getElementByIdOrError("solar-eclipse-table-body"),
+    elementsWithData: [],
+  };
+
+  state.lunarEvents.subscribe((lunarEvents) => runWithData(lunarEvents, resources));
+  runWithData(state.lunarEvents.getValue(), resources);
+}
+
+function runWithData(lunarEvents: LunarEvents, resources: ViewResources) {
+  const { solarEclipses } = lunarEvents;
+  if (solarEclipses.length === 0) {
+    resources.container.classList.add(hidden);
+  } else {
+    resources.container.classList.remove(hidden);
+  }
+
+  resources.elementsWithData = updateElementsFromData(
+    resources.elementsWithData,
+    solarEclipses,
+    resources.tableBody,
+    (elems) => elems.tr,
+    createTableRow
+  );
+}
+
+function createTableRow(eclipse: SolarEclipse): TableRowElems {
+  const trElem = document.createElement("tr");
+  trElem.innerHTML = tableRowContentHtml;
+  const rowElems = getTableRowElems(trElem);
+
+  // Total and annular eclipses can occur without the shadow axis touching the Earth, near the poles.
+  const typeName = getSolarEclipseTypeName(eclipse.eclipseType);
+  const isNonCentral = !eclipse.isCentral && eclipse.eclipseType !== SolarEclipseType.Partial;
+  rowElems.date.textContent = toFriendlyUTC(eclipse.date);
+  rowElems.type.textContent = isNonCentral ? `${typeName} (non-central)` : typeName;
+  rowElems.gamma.textContent = eclipse.gamma.toFixed(4);
+  rowElems.magnitude.textContent = eclipse.magnitude.toFixed(4);
+  return rowElems;
+}
+
+type ViewResources = {
+  container: HTMLElement;
+  tableBody: HTMLElement;
+  elementsWithData: ElemsWithData<TableRowElems, SolarEclipse>[];
+};
@@ -1,27 +1,75 @@
 import { createNumericInput, ElemsWithData, getElementByIdOrError, updateElementsFromData } from "../common/html-utils";
+import { radToDeg } from "../common/math";
 import { toFriendlyUTC } from "../common/text-utils";
-import { getMinimumRangeFromHorizons, HorizonsParams, HorizonsResultRecord } from "../horizons";
-import type { SavedPoint, State, TerrainLocationData } from "../state-types";
-import { savePoints } from "../storage";
+import { Ephemeris } from "../ephemeris";
+import {
+  getMinimumRangeFromHorizons,
+  getObserverTableFromHorizons,
+  HorizonsObserverRecord,
+  HorizonsParams,
+  HorizonsResultRecord,
+} from "../horizons";
+import {
+  CachingHorizonsClient,
+  defaultRateLimitOptions,
+  getHttpHorizonsClientOptions,
+  HorizonsClient,
+  HttpHorizonsClient,
+  RateLimitedHorizonsClient,
+} from "../horizons-client";
+import {
+  compareSavedPoints,
+  findPerigeeForTime,
+  formatTags,
+  getAllTags,
+  getSavedPointName,
+  matchesFilter,
+  parseTags,
+  SavedPointFilter,
+  SavedPointSortOrder,
+} from "../saved-points";
+import type { Perigee, SavedHorizonsResult, SavedPoint, State, TerrainLocationData } from "../state-types";
+import { getIndexedDb } from "../storage";
 import { hidden } from "../styles/site.module.css";
+import { getAstronomicalTime } from "../time";
+import { loadEphemerisRange } from "../time-range";
+import {
+  getRiseSetTransit,
+  getTopocentricMoonAppearance,
+  RiseSetTransit,
+  TopocentricMoonAppearance,
+} from "../topocentric";
 import { certificateIcon, floppyDiskIcon, penIcon, trashIcon } from "./icons";
 
 const googleEarthPrefix = "https://earth.google.com/web/@";
 
+// For headings spanning the whole table.
+const columnCount = 14;
+
 const tableRowContentHtml = `
+  <td data-label="Name" data-var="name"></td>
   <td data-label="Longitude" data-var="lon"></td>
   <td data-label="Latitude" data-var="lat"></td>
   <td data-label="Elevation" data-var="elev"></td>
   <td data-label="Ideal Time" data-var="time"></td>
   <td data-label="Distance" data-var="dist"></td>
+  <td data-label="Δ Time" data-var="delta-time"></td>
+  <td data-label="Δ Distance" data-var="delta-dist"></td>
+  <td data-label="Moonrise" data-var="rise"></td>
+  <td data-label="Transit" data-var="transit"></td>
+  <td data-label="Moonset" data-var="set"></td>
   <td data-label="Google Earth" data-var="earth">
     <a href="#" target="_blank" rel="noopener noreferrer">Open</a>
   </td>
+  <td data-label="Notes" data-var="notes"></td>
   <td data-label="Action" data-var="action">
     <button data-action="verify" aria-label="Verify with Horizons" title="Verify with Horizons">
       ${certificateIcon}
       Verify
     </button>
+    <button data-action="sky" aria-label="Compare sky view with Horizons" title="Compare sky view with Horizons">
+      Sky
+    </button>
     <button data-action="edit" aria-label="Edit" title="Edit">
       ${penIcon}
     </button>
@@ -36,42 +84,62 @@ const tableRowContentHtml = `
 
 type TableRowElems = {
   tr: HTMLTableRowElement;
+  name: Element;
+  notes: Element;
   lat: Element;
   lon: Element;
   elev: Element;
   time: Element;
   dist: Element;
+  deltaTime: Element;
+  deltaDist: Element;
+  rise: Element;
+  transit: Element;
+  set: Element;
   earthLink: HTMLAnchorElement;
   verifyBtn: HTMLButtonElement;
+  skyBtn: HTMLButtonElement;
   editBtn: HTMLButtonElement;
   deleteBtn: HTMLButtonElement;
   saveBtn: HTMLButtonElement;
   pasteHandler: ((e: ClipboardEvent) => void) | null;
   verifyHandler: (() => void) | null;
+  skyHandler: (() => void) | null;
   editHandler: (() => void) | null;
   deleteHandler: (() => void) | null;
   saveHandler: (() => void) | null;
+  riseSetTransitPoint: SavedPoint | null;
 };
 
 function getTableRowElems(tr: HTMLTableRowElement): TableRowElems {
   const actionElem = tr.querySelector("td[data-var='action']")!;
   return {
     tr,
+    name: tr.querySelector("td[data-var='name']")!,
+    notes: tr.querySelector("td[data-var='notes']")!,
     lat: tr.querySelector("td[data-var='lat']")!,
     lon: tr.querySelector("td[data-var='lon']")!,
     elev: tr.querySelector("td[data-var='elev']")!,
     time: tr.querySelector("td[data-var='time']")!,
     dist: tr.querySelector("td[data-var='dist']")!,
+    deltaTime: tr.querySelector("td[data-var='delta-time']")!,
+    deltaDist: tr.querySelector("td[data-var='delta-dist']")!,
+    rise: tr.querySelector("td[data-var='rise']")!,
+    transit: tr.querySelector("td[data-var='transit']")!,
+    set: tr.querySelector("td[data-var='set']")!,
     earthLink: tr.querySelector("td[data-var='earth'] a")!,
     verifyBtn: actionElem.querySelector("button[data-action='verify']")!,
+    skyBtn: actionElem.querySelector("button[data-action='sky']")!,
     editBtn: actionElem.querySelector("button[data-action='edit']")!,
     deleteBtn: actionElem.querySelector("button[data-action='delete']")!,
     saveBtn: actionElem.querySelector("button[data-action='save']")!,
     pasteHandler: null,
     verifyHandler: null,
+    skyHandler: null,
     editHandler: null,
     deleteHandler: null,
     saveHandler: null,
+    riseSetTransitPoint: null,
   };
 }
 
@@ -83,8 +151,68 @@ export function run(container: HTMLElement, state: State) {
     tableBody: getElementByIdOrError("summary-table-body"),
     rowDataItems: initialLocationData !== null ? [asEditingData(initialLocationData), ...savedPoints] : savedPoints,
     elementsWithData: [],
+    listOptions: {
+      filter: { text: "", tag: "" },
+      groupByPerigee: false,
+      sortOrder: SavedPointSortOrder.Distance,
+    },
+    listControls: {
+      filterText: getElementByIdOrError("summary-filter-text"),
+      filterTag: getElementByIdOrError("summary-filter-tag"),
+      groupByPerigee: getElementByIdOrError("summary-group-by-perigee"),
+      sortOrder: getElementByIdOrError("summary-sort-order"),
+    },
+    horizonsClient: new CachingHorizonsClient(
+      new RateLimitedHorizonsClient(
+        new HttpHorizonsClient(getHttpHorizonsClientOptions(new URLSearchParams(window.location.search))),
+        defaultRateLimitOptions
+      ),
+      getIndexedDb()
+    ),
+    skyComparison: {
+      container: getElementByIdOrError("sky-comparison"),
+      caption: getElementByIdOrError("sky-comparison-caption"),
+      tableBody: getElementByIdOrError("sky-comparison-body"),
+      point: null,
+    },
   };
 
+  resources.skyComparison.container.classList.add(hidden);
+
+  const { listOptions, listControls } = resources;
+  listControls.filterText.addEventListener("input", () => {
+    listOptions.filter.text = listControls.filterText.value;
+    runWithData(state, resources);
+  });
+
+  listControls.filterTag.addEventListener("change", () => {
+    listOptions.filter.tag = listControls.filterTag.value;
+    runWithData(state, resources);
+  });
+
+  listControls.groupByPerigee.addEventListener("change", () => {
+    listOptions.groupByPerigee = listControls.groupByPerigee.checked;
+    runWithData(state, resources);
+  });
+
+  listControls.sortOrder.addEventListener("change", () => {
+    listOptions.sortOrder = listControls.sortOrder.value as SavedPointSortOrder;
+    runWithData(state, resources);
+  });
+
+  const verifyAllButton = getElementByIdOrError<HTMLButtonElement>("verify-all-button");
+  const verifyAllStatus = getElementByIdOrError("verify-all-status");
+  verifyAllButton.addEventListener("click", async () => {
+    verifyAllButton.disabled = true;
+    try {
+      verifyAllStatus.textContent = await verifyAllSavedPoints(state, resources, (status) => {
+        verifyAllStatus.textContent = status;
+      });
+    } finally {
+      verifyAllButton.disabled = false;
+    }
+  });
+
   state.terrainLocationData.subscribe((data) => {
     if (data !== null) {
       const replaceFirstRow = resources.rowDataItems.length > 0 && isEditingData(resources.rowDataItems[0]);
@@ -98,6 +226,21 @@ export function run(container: HTMLElement, state: State) {
     runWithData(state, resources);
   });
 
+  // Points can also be saved elsewhere, e.g. imported from a file.
+  state.savedPoints.subscribe((points) => {
+    if (updateRowsFromSavedPoints(resources, points)) {
+      runWithData(state, resources);
+    }
+  });
+
+  // Points saved before they were associated with perigees get them when the perigees are calculated.
+  state.lunarEvents.subscribe(({ perigees }) => {
+    if (setMissingPerigees(resources, perigees)) {
+      savePointsFromRows(state, resources);
+      runWithData(state, resources);
+    }
+  });
+
   runWithData(state, resources);
 
   function asEditingData(candidateData: TerrainLocationData): EditingData {
@@ -106,6 +249,9 @@ export function run(container: HTMLElement, state: State) {
       longitudeDegrees: candidateData.longitudeDegrees,
       latitudeDegrees: candidateData.latitudeDegrees,
       altitudeInM: candidateData.altitudeInM,
+      name: "",
+      notes: "",
+      tags: [],
       horizonsResultRecord: null,
       previouslySavedPoint: null,
     };
@@ -123,16 +269,14 @@ function runWithData(state: State, resources: ViewResources) {
   refreshFromData();
 
   function refreshFromData() {
-    resources.rowDataItems.sort((a, b) =>
-      isEditingData(a) || isEditingData(b) ? 0 : a.distanceToMoonInKm - b.distanceToMoonInKm
-    );
+    updateTagOptions(resources);
 
     resources.elementsWithData = updateElementsFromData(
       resources.elementsWithData,
-      resources.rowDataItems,
+      getDisplayRows(resources.rowDataItems, resources.listOptions),
       resources.tableBody,
       (elems) => elems.tr,
-      createTableRowWithData
+      (row) => (isGroupHeading(row) ? createGroupHeadingRow(row) : createTableRowWithData(row))
     );
   }
 
@@ -144,7 +288,7 @@ function runWithData(state: State, resources: ViewResources) {
     if (isEditingData(data)) {
       setTableRowEditing(rowElems, data, handleValueChange, handlePaste, handleVerify, handleSave);
     } else {
-      setTableRowSaved(rowElems, data, handleDelete, handleEdit);
+      setTableRowSaved(rowElems, data, state.ephPromise, handleAnnotationChange, handleSky, handleDelete, handleEdit);
     }
     return rowElems;
   }
@@ -166,7 +310,17 @@ function runWithData(state: State, resources: ViewResources) {
   }
 
   async function handleVerify(data: EditingData, rowElems: TableRowElems) {
-    const result = await getVerifiedMinimumRange(data);
+    rowElems.verifyBtn.disabled = true;
+    let result: HorizonsResultRecord | null;
+    try {
+      result = await getVerifiedMinimumRange(resources.horizonsClient, data);
+    } catch (err) {
+      alert(`Unable to verify with Horizons: ${err instanceof Error ? err.message : err}`);
+      return;
+    } finally {
+      rowElems.verifyBtn.disabled = false;
+    }
+
     if (result === null) {
       alert("Moon does not reach a minimum distance around this location and time.");
       return;
@@ -181,12 +335,19 @@ function runWithData(state: State, resources: ViewResources) {
       throw new Error("Should not be able to save without verification record");
     }
 
+    const idealUnixTime = data.horizonsResultRecord.date.getTime();
+    const perigee = findPerigeeForTime(state.lunarEvents.getValue().perigees, idealUnixTime);
     const newPoint: SavedPoint = {
       longitudeDegrees: data.longitudeDegrees,
       latitudeDegrees: data.latitudeDegrees,
       altitudeInM: data.altitudeInM,
       distanceToMoonInKm: data.horizonsResultRecord.range,
-      idealUnixTime: data.horizonsResultRecord.date.getTime(),
+      idealUnixTime,
+      horizonsResult: asSavedHorizonsResult(data.horizonsResultRecord),
+      name: data.name,
+      notes: data.notes,
+      tags: data.tags,
+      perigeeUnixTime: data.previouslySavedPoint?.perigeeUnixTime ?? perigee?.date.getTime() ?? null,
     };
 
     const index = resources.rowDataItems.indexOf(data);
@@ -198,7 +359,23 @@ function runWithData(state: State, resources: ViewResources) {
 
     savePointsAndUpdate();
 
-    setTableRowSaved(rowElems, newPoint, handleDelete, handleEdit);
+    setTableRowSaved(rowElems, newPoint, state.ephPromise, handleAnnotationChange, handleSky, handleDelete, handleEdit);
+  }
+
+  function handleAnnotationChange(point: SavedPoint, annotations: Annotations) {
+    const index = resources.rowDataItems.indexOf(point);
+    if (index === -1) {
+      throw new Error("Point to annotate not found");
+    }
+
+    // The point is replaced rather than changed, so that the saved points are updated and their subscribers notified.
+    resources.rowDataItems.splice(index, 1, { ...point, ...annotations });
+
+    savePointsAndUpdate();
+  }
+
+  function handleSky(point: SavedPoint) {
+    showSkyComparison(resources.skyComparison, resources.horizonsClient, point, state.ephPromise);
   }
 
   function handleDelete(point: SavedPoint) {
@@ -223,6 +400,9 @@ function runWithData(state: State, resources: ViewResources) {
       latitudeDegrees: point.latitudeDegrees,
       altitudeInM: point.altitudeInM,
       optimalDate: new Date(point.idealUnixTime),
+      name: point.name,
+      notes: point.notes,
+      tags: point.tags,
       horizonsResultRecord: null,
       previouslySavedPoint: point,
     };
@@ -233,22 +413,202 @@ function runWithData(state: State, resources: ViewResources) {
   }
 
   function savePointsAndUpdate() {
-    const toSave: SavedPoint[] = [];
-    resources.rowDataItems.forEach((d) => {
-      if (isEditingData(d) && d.previouslySavedPoint !== null) {
-        toSave.push(d.previouslySavedPoint);
-      } else if (!isEditingData(d)) {
-        toSave.push(d);
-      }
-    });
+    savePointsFromRows(state, resources);
+    refreshFromData();
+  }
+}
+
+function savePointsFromRows(state: State, resources: ViewResources) {
+  state.savedPoints.setValue(getSavedPointsFromRows(resources));
+}
+
+function getSavedPointsFromRows(resources: ViewResources): SavedPoint[] {
+  const points: SavedPoint[] = [];
+  resources.rowDataItems.forEach((d) => {
+    if (isEditingData(d) && d.previouslySavedPoint !== null) {
+      points.push(d.previouslySavedPoint);
+    } else if (!isEditingData(d)) {
+      points.push(d);
+    }
+  });
 
-    savePoints(toSave);
-    state.savedPoints.setValue(toSave);
+  return points;
+}
 
-    refreshFromData();
+/**
+ * Adds and removes rows for points saved or deleted outside this view, leaving rows being edited.
+ * Returns whether any rows changed.
+ */
+function updateRowsFromSavedPoints(resources: ViewResources, points: SavedPoint[]): boolean {
+  const shownPoints = getSavedPointsFromRows(resources);
+  if (shownPoints.length === points.length && shownPoints.every((p, i) => p === points[i])) {
+    return false;
+  }
+
+  const pointSet = new Set(points);
+  const shownPointSet = new Set(shownPoints);
+  resources.rowDataItems = resources.rowDataItems.filter((d) => isEditingData(d) || pointSet.has(d));
+  resources.rowDataItems.push(...points.filter((p) => !shownPointSet.has(p)));
+  return true;
+}
+
+/**
+ * Associates saved points that have no perigee with the perigee for their ideal time, if it has been calculated.
+ * Returns whether any points changed.
+ */
+function setMissingPerigees(resources: ViewResources, perigees: Perigee[]): boolean {
+  let isChanged = false;
+
+  // The points are replaced rather than changed, so that they can be compared with the saved points.
+  resources.rowDataItems = resources.rowDataItems.map((row) => {
+    if (!isEditingData(row)) {
+      return withPerigee(row);
+    }
+
+    const previouslySavedPoint = row.previouslySavedPoint && withPerigee(row.previouslySavedPoint);
+    return previouslySavedPoint === row.previouslySavedPoint ? row : { ...row, previouslySavedPoint };
+  });
+
+  return isChanged;
+
+  function withPerigee(point: SavedPoint): SavedPoint {
+    const perigee = point.perigeeUnixTime === null ? findPerigeeForTime(perigees, point.idealUnixTime) : null;
+    if (perigee === null) {
+      return point;
+    }
+
+    isChanged = true;
+    return { ...point, perigeeUnixTime: perigee.date.getTime() };
   }
 }
 
+/**
+ * Gets the rows to show, in order: new rows being edited first, then the saved points that match the filter, sorted
+ * and optionally grouped by perigee. Saved points being edited are always shown.
+ */
+function getDisplayRows(rowDataItems: RowData[], listOptions: ListOptions): DisplayRow[] {
+  const newRows = rowDataItems.filter((d) => isEditingData(d) && d.previouslySavedPoint === null);
+  const pointRows = rowDataItems
+    .map((row) => ({ row, point: isEditingData(row) ? row.previouslySavedPoint : row }))
+    .filter((r): r is { row: RowData; point: SavedPoint } => r.point !== null)
+    .filter(({ row, point }) => isEditingData(row) || matchesFilter(point, listOptions.filter))
+    .sort((a, b) => compareSavedPoints(a.point, b.point, listOptions.sortOrder));
+
+  if (!listOptions.groupByPerigee) {
+    return [...newRows, ...pointRows.map((r) => r.row)];
+  }
+
+  const rowsByPerigee = new Map<number | null, RowData[]>();
+  pointRows.forEach(({ row, point }) => {
+    const rows = rowsByPerigee.get(point.perigeeUnixTime) ?? [];
+    rows.push(row);
+    rowsByPerigee.set(point.perigeeUnixTime, rows);
+  });
+
+  // Earliest perigee first, with points from unknown perigees at the end.
+  const perigeeTimes = [...rowsByPerigee.keys()].sort((a, b) => (a ?? Infinity) - (b ?? Infinity));
+  const groupedRows = perigeeTimes.flatMap((perigeeUnixTime) => {
+    const rows = rowsByPerigee.get(perigeeUnixTime)!;
+    const heading: GroupHeading = { perigeeUnixTime, pointCount: rows.length };
+    return [heading, ...rows];
+  });
+
+  return [...newRows, ...groupedRows];
+}
+
+function createGroupHeadingRow(heading: GroupHeading): GroupHeadingElems {
+  const perigeeText =
+    heading.perigeeUnixTime !== null
+      ? `Perigee of ${toFriendlyUTC(new Date(heading.perigeeUnixTime))}`
+      : "Unknown perigee";
+
+  const th = document.createElement("th");
+  th.colSpan = columnCount;
+  th.scope = "rowgroup";
+  th.textContent = `${perigeeText} (${heading.pointCount} point${heading.pointCount === 1 ? "" : "s"})`;
+
+  const tr = document.createElement("tr");
+  tr.appendChild(th);
+  return { tr };
+}
+
+function updateTagOptions(resources: ViewResources) {
+  const { filterTag } = resources.listControls;
+  const tags = getAllTags(getSavedPointsFromRows(resources));
+  const options = ["", ...tags].map((tag) => {
+    const option = document.createElement("option");
+    option.value = tag;
+    option.textContent = tag === "" ? "All tags" : tag;
+    return option;
+  });
+
+  filterTag.replaceChildren(...options);
+
+  // The selected tag may have been removed from every point.
+  const { filter } = resources.listOptions;
+  filter.tag = tags.includes(filter.tag) ? filter.tag : "";
+  filterTag.value = filter.tag;
+}
+
+/**
+ * Verifies each saved point in turn, storing the result with the point as soon as it's received.
+ * Returns a summary of the results.
+ */
+async function verifyAllSavedPoints(
+  state: State,
+  resources: ViewResources,
+  showProgress: (status: string) => void
+): Promise<string> {
+  const points = resources.rowDataItems.filter((d): d is SavedPoint => !isEditingData(d));
+  if (points.length === 0) {
+    return "No saved points to verify.";
+  }
+
+  const failures: string[] = [];
+  for (let i = 0; i < points.length; i++) {
+    showProgress(`Verifying ${i + 1} of ${points.length}...`);
+    const point = points[i];
+    let result: HorizonsResultRecord | null;
+    try {
+      result = await getVerifiedMinimumRange(resources.horizonsClient, {
+        optimalDate: new Date(point.idealUnixTime),
+        longitudeDegrees: point.longitudeDegrees,
+        latitudeDegrees: point.latitudeDegrees,
+        altitudeInM: point.altitudeInM,
+      });
+    } catch (err) {
+      failures.push(`${getSavedPointName(point)} (${err instanceof Error ? err.message : err})`);
+      continue;
+    }
+
+    if (result === null) {
+      failures.push(`${getSavedPointName(point)} (no minimum distance found)`);
+      continue;
+    }
+
+    // The point may have been deleted or edited while waiting for the response.
+    const index = resources.rowDataItems.indexOf(point);
+    if (index >= 0) {
+      resources.rowDataItems.splice(index, 1, { ...point, horizonsResult: asSavedHorizonsResult(result) });
+      savePointsFromRows(state, resources);
+      runWithData(state, resources);
+    }
+  }
+
+  const verifiedCount = points.length - failures.length;
+  const failureText = failures.length > 0 ? ` Could not verify ${failures.join(", ")}.` : "";
+  return `Verified ${verifiedCount} of ${points.length} saved points.${failureText}`;
+}
+
+function asSavedHorizonsResult(record: HorizonsResultRecord): SavedHorizonsResult {
+  return {
+    unixTime: record.date.getTime(),
+    range: record.range,
+    rangeRate: record.rangeRate,
+    verifiedUnixTime: Date.now(),
+  };
+}
+
 function setTableRowEditing(
   rowElems: TableRowElems,
   data: EditingData,
@@ -275,6 +635,10 @@ function setTableRowEditing(
   rowElems.lon.replaceChildren(lonInput);
   rowElems.lat.replaceChildren(latInput);
   rowElems.elev.replaceChildren(elevInput);
+  setAnnotationInputs(rowElems, data, (annotations) => Object.assign(data, annotations));
+  rowElems.riseSetTransitPoint = null;
+  clearRiseSetTransit(rowElems);
+  showHorizonsDeltas(rowElems, null);
   rowElems.earthLink.href = getGoogleEarthLink(
     data.longitudeDegrees,
     data.latitudeDegrees,
@@ -303,6 +667,7 @@ function setTableRowEditing(
   rowElems.saveBtn.addEventListener("click", rowElems.saveHandler);
 
   rowElems.saveBtn.classList.add(hidden); // Assume not verified, initially
+  rowElems.skyBtn.classList.add(hidden);
   rowElems.deleteBtn.classList.add(hidden);
   rowElems.editBtn.classList.add(hidden);
 }
@@ -310,6 +675,9 @@ function setTableRowEditing(
 function setTableRowSaved(
   rowElems: TableRowElems,
   point: SavedPoint,
+  ephPromise: Promise<Ephemeris>,
+  handleAnnotationChange: (point: SavedPoint, annotations: Annotations) => void,
+  handleSky: (point: SavedPoint) => void,
   handleDelete: (point: SavedPoint, rowElems: TableRowElems) => void,
   handleEdit: (point: SavedPoint, rowElems: TableRowElems) => void
 ) {
@@ -318,6 +686,9 @@ function setTableRowSaved(
   rowElems.elev.textContent = `${Math.round(point.altitudeInM).toLocaleString()} m`;
   rowElems.time.textContent = toFriendlyUTC(new Date(point.idealUnixTime));
   rowElems.dist.textContent = `${(Math.round(point.distanceToMoonInKm * 1000) / 1000).toLocaleString()} km`;
+  setAnnotationInputs(rowElems, point, (annotations) => handleAnnotationChange(point, annotations));
+  showHorizonsDeltas(rowElems, point);
+  showRiseSetTransit(rowElems, point, ephPromise);
   rowElems.earthLink.href = getGoogleEarthLink(
     point.longitudeDegrees,
     point.latitudeDegrees,
@@ -326,6 +697,11 @@ function setTableRowSaved(
   );
   rowElems.verifyBtn.classList.add(hidden);
   rowElems.saveBtn.classList.add(hidden);
+  rowElems.skyBtn.classList.remove(hidden);
+
+  if (rowElems.skyHandler !== null) {
+    rowElems.skyBtn.removeEventListener("click", rowElems.skyHandler);
+  }
 
   if (rowElems.deleteHandler !== null) {
     rowElems.deleteBtn.removeEventListener("click", rowElems.deleteHandler);
@@ -335,13 +711,225 @@ function setTableRowSaved(
     rowElems.editBtn.removeEventListener("click", rowElems.editHandler);
   }
 
+  rowElems.skyHandler = () => handleSky(point);
   rowElems.deleteHandler = () => handleDelete(point, rowElems);
   rowElems.editHandler = () => handleEdit(point, rowElems);
 
+  rowElems.skyBtn.addEventListener("click", rowElems.skyHandler);
+
   rowElems.deleteBtn.addEventListener("click", rowElems.deleteHandler);
   rowElems.editBtn.addEventListener("click", rowElems.editHandler);
 }
 
+/**
+ * Shows inputs for the name, tags and notes, which pass the new annotations to the handler as they're changed.
+ */
+function setAnnotationInputs(
+  rowElems: TableRowElems,
+  initialAnnotations: Annotations,
+  handleChange: (annotations: Annotations) => void
+) {
+  let annotations: Annotations = {
+    name: initialAnnotations.name,
+    notes: initialAnnotations.notes,
+    tags: initialAnnotations.tags,
+  };
+
+  const nameInput = document.createElement("input");
+  nameInput.type = "text";
+  nameInput.placeholder = "Name";
+  nameInput.value = annotations.name;
+  nameInput.addEventListener("change", () => {
+    annotations = { ...annotations, name: nameInput.value.trim() };
+    handleChange(annotations);
+  });
+
+  const tagsInput = document.createElement("input");
+  tagsInput.type = "text";
+  tagsInput.placeholder = "Tags, comma separated";
+  tagsInput.value = formatTags(annotations.tags);
+  tagsInput.addEventListener("change", () => {
+    annotations = { ...annotations, tags: parseTags(tagsInput.value) };
+    tagsInput.value = formatTags(annotations.tags);
+    handleChange(annotations);
+  });
+
+  const notesInput = document.createElement("textarea");
+  notesInput.placeholder = "Notes";
+  notesInput.rows = 2;
+  notesInput.value = annotations.notes;
+  notesInput.addEventListener("change", () => {
+    annotations = { ...annotations, notes: notesInput.value };
+    handleChange(annotations);
+  });
+
+  rowElems.name.replaceChildren(nameInput);
+  rowElems.notes.replaceChildren(tagsInput, notesInput);
+}
+
+function showHorizonsDeltas(rowElems: TableRowElems, point: SavedPoint | null) {
+  const result = point?.horizonsResult || null;
+  if (point === null || result === null) {
+    rowElems.deltaTime.textContent = "";
+    rowElems.deltaDist.textContent = "";
+    rowElems.deltaTime.removeAttribute("title");
+    rowElems.deltaDist.removeAttribute("title");
+    return;
+  }
+
+  const deltaSeconds = (point.idealUnixTime - result.unixTime) / 1000;
+  const deltaMeters = (point.distanceToMoonInKm - result.range) * 1000;
+  const horizonsTime = toFriendlyUTC(new Date(result.unixTime));
+  const verifiedTime = toFriendlyUTC(new Date(result.verifiedUnixTime));
+  const title = `Horizons: ${horizonsTime}, ${result.range.toLocaleString()} km (verified ${verifiedTime})`;
+  rowElems.deltaTime.textContent = `${formatSigned(deltaSeconds, 1)} s`;
+  rowElems.deltaDist.textContent = `${formatSigned(deltaMeters, 0)} m`;
+  rowElems.deltaTime.setAttribute("title", title);
+  rowElems.deltaDist.setAttribute("title", title);
+
+  function formatSigned(value: number, fractionDigits: number): string {
+    const rounded = Number(value.toFixed(fractionDigits));
+    const text = Math.abs(rounded).toFixed(fractionDigits);
+    return rounded > 0 ? `+${text}` : rounded < 0 ? `-${text}` : text;
+  }
+}
+
+async function showRiseSetTransit(rowElems: TableRowElems, point: SavedPoint, ephPromise: Promise<Ephemeris>) {
+  rowElems.riseSetTransitPoint = point;
+  clearRiseSetTransit(rowElems);
+
+  let riseSetTransit: RiseSetTransit;
+  try {
+    const ephemeris = await getEphemerisForPoint(ephPromise, point);
+    if (rowElems.riseSetTransitPoint !== point) {
+      // The row has been edited or reused for another point while the ephemeris was loading.
+      return;
+    }
+
+    riseSetTransit = getRiseSetTransit(ephemeris, point, new Date(point.idealUnixTime));
+  } catch (err) {
+    if (rowElems.riseSetTransitPoint === point) {
+      const title = `Unable to calculate rise, transit and set: ${err instanceof Error ? err.message : err}`;
+      [rowElems.rise, rowElems.transit, rowElems.set].forEach((cell) => {
+        cell.textContent = "—";
+        cell.setAttribute("title", title);
+      });
+    }
+
+    return;
+  }
+
+  // Rise and set are missing when the Moon stays above (or below) the horizon all day.
+  const { rise, transit, set } = riseSetTransit;
+  rowElems.rise.textContent = rise !== null ? toFriendlyUTC(rise) : "—";
+  rowElems.transit.textContent = toFriendlyUTC(transit);
+  rowElems.set.textContent = set !== null ? toFriendlyUTC(set) : "—";
+}
+
+async function getEphemerisForPoint(ephPromise: Promise<Ephemeris>, point: SavedPoint): Promise<Ephemeris> {
+  // Saved points can be outside the current time range, so their data may not have been loaded yet.
+  const ephemeris = await ephPromise;
+  const date = new Date(point.idealUnixTime);
+  await loadEphemerisRange(ephemeris, { startDate: date, endDate: date });
+  return ephemeris;
+}
+
+/**
+ * Shows Horizons' observer table entry for the point's ideal time alongside our own prediction.
+ */
+async function showSkyComparison(
+  elems: SkyComparisonElems,
+  client: HorizonsClient,
+  point: SavedPoint,
+  ephPromise: Promise<Ephemeris>
+) {
+  elems.point = point;
+  elems.container.classList.remove(hidden);
+  elems.caption.textContent = "Fetching observer table from Horizons...";
+  elems.tableBody.replaceChildren();
+
+  // Three samples a minute apart, the middle one at the ideal time.
+  const horizonsParams: HorizonsParams = {
+    date: new Date(point.idealUnixTime),
+    timeWindowSeconds: 60 * 2,
+    sampleCount: 2,
+    longitudeDegrees: point.longitudeDegrees,
+    latitudeDegrees: point.latitudeDegrees,
+    altitudeInM: point.altitudeInM,
+  };
+
+  let records: HorizonsObserverRecord[];
+  let ephemeris: Ephemeris;
+  try {
+    [records, ephemeris] = await Promise.all([
+      getObserverTableFromHorizons(client, horizonsParams),
+      getEphemerisForPoint(ephPromise, point),
+    ]);
+  } catch (err) {
+    if (elems.point === point) {
+      elems.caption.textContent = `Unable to get observer table from Horizons: ${err}`;
+    }
+
+    return;
+  }
+
+  if (elems.point !== point) {
+    // Another point was selected while waiting.
+    return;
+  }
+
+  if (records.length === 0) {
+    elems.caption.textContent = "Horizons returned an empty observer table.";
+    return;
+  }
+
+  const record = records[Math.floor(records.length / 2)];
+  const ours = getTopocentricMoonAppearance(ephemeris, point, getAstronomicalTime(record.date));
+  const location = `${point.longitudeDegrees.toFixed(6)}°, ${point.latitudeDegrees.toFixed(6)}°`;
+  elems.caption.textContent = `Sky at ${location} on ${toFriendlyUTC(record.date)}`;
+
+  const rows = getSkyComparisonRows(record, ours).map(([label, horizonsText, oursText]) => {
+    const tr = document.createElement("tr");
+    [label, horizonsText, oursText].forEach((text) => {
+      const td = document.createElement("td");
+      td.textContent = text;
+      tr.appendChild(td);
+    });
+
+    return tr;
+  });
+
+  elems.tableBody.replaceChildren(...rows);
+}
+
+function getSkyComparisonRows(record: HorizonsObserverRecord, ours: TopocentricMoonAppearance): string[][] {
+  const notCalculated = "—";
+  return [
+    ["Azimuth", `${record.azimuth.toFixed(4)}°`, `${radToDeg(ours.azimuth).toFixed(4)}°`],
+    ["Elevation", `${record.elevation.toFixed(4)}°`, `${radToDeg(ours.altitude).toFixed(4)}°`],
+    ["Right ascension", `${record.rightAscension.toFixed(4)}°`, notCalculated],
+    ["Declination", `${record.declination.toFixed(4)}°`, notCalculated],
+    [
+      "Illuminated",
+      `${(record.illuminatedFraction * 100).toFixed(2)}%`,
+      `${(ours.illuminatedFraction * 100).toFixed(2)}%`,
+    ],
+    [
+      "Angular diameter",
+      `${record.angularDiameter.toFixed(2)}″`,
+      `${(radToDeg(ours.angularDiameter) * 60 * 60).toFixed(2)}″`,
+    ],
+    ["Distance", `${record.range.toLocaleString()} km`, `${ours.distance.toLocaleString()} km`],
+  ];
+}
+
+function clearRiseSetTransit(rowElems: TableRowElems) {
+  [rowElems.rise, rowElems.transit, rowElems.set].forEach((cell) => {
+    cell.textContent = "";
+    cell.removeAttribute("title");
+  });
+}
+
 function updateRowVerificationState(rowElems: TableRowElems, data: EditingData) {
   const resultRecord = data.horizonsResultRecord;
   rowElems.time.textContent = resultRecord !== null ? toFriendlyUTC(resultRecord.date) : "";
@@ -432,7 +1020,10 @@ type EarthUrlComponents = {
   tilt: number;
 };
 
-async function getVerifiedMinimumRange(data: EditingData): Promise<HorizonsResultRecord | null> {
+async function getVerifiedMinimumRange(
+  client: HorizonsClient,
+  data: VerificationLocation
+): Promise<HorizonsResultRecord | null> {
   const minutesEachSide = 15;
   const horizonsParams: HorizonsParams = {
     date: data.optimalDate,
@@ -443,27 +1034,75 @@ async function getVerifiedMinimumRange(data: EditingData): Promise<HorizonsResul
     altitudeInM: data.altitudeInM,
   };
 
-  return await getMinimumRangeFromHorizons(horizonsParams);
+  return await getMinimumRangeFromHorizons(client, horizonsParams);
 }
 
 type ViewResources = {
   container: HTMLElement;
   tableBody: HTMLElement;
   rowDataItems: RowData[];
-  elementsWithData: ElemsWithData<TableRowElems, RowData>[];
+  elementsWithData: ElemsWithData<TableRowElems | GroupHeadingElems, DisplayRow>[];
+  listOptions: ListOptions;
+  listControls: ListControls;
+  horizonsClient: HorizonsClient;
+  skyComparison: SkyComparisonElems;
+};
+
+type ListOptions = {
+  filter: SavedPointFilter;
+  groupByPerigee: boolean;
+  sortOrder: SavedPointSortOrder;
+};
+
+type ListControls = {
+  filterText: HTMLInputElement;
+  filterTag: HTMLSelectElement;
+  groupByPerigee: HTMLInputElement;
+  sortOrder: HTMLSelectElement;
+};
+
+type SkyComparisonElems = {
+  container: HTMLElement;
+  caption: HTMLElement;
+  tableBody: HTMLElement;
+  // The point being shown, or being fetched.
+  point: SavedPoint | null;
 };
 
 type RowData = EditingData | SavedPoint;
 
-type EditingData = Pick<TerrainLocationData, "optimalDate" | "longitudeDegrees" | "latitudeDegrees" | "altitudeInM"> & {
-  horizonsResultRecord: HorizonsResultRecord | null;
-  previouslySavedPoint: SavedPoint | null;
+type GroupHeading = {
+  perigeeUnixTime: number | null;
+  pointCount: number;
 };
 
+type GroupHeadingElems = {
+  tr: HTMLTableRowElement;
+};
+
+type DisplayRow = RowData | GroupHeading;
+
+type Annotations = Pick<SavedPoint, "name" | "notes" | "tags">;
+
+type VerificationLocation = Pick<
+  TerrainLocationData,
+  "optimalDate" | "longitudeDegrees" | "latitudeDegrees" | "altitudeInM"
+>;
+
+type EditingData = VerificationLocation &
+  Annotations & {
+    horizonsResultRecord: HorizonsResultRecord | null;
+    previouslySavedPoint: SavedPoint | null;
+  };
+
 function isEditingData(data: RowData): data is EditingData {
   return (data as EditingData).horizonsResultRecord !== undefined;
 }
 
+function isGroupHeading(row: DisplayRow): row is GroupHeading {
+  return (row as GroupHeading).pointCount !== undefined;
+}
+
 function createGoogleEarthPasteHandler(
   data: EditingData,
   rowElems: TableRowElems,
@@ -10,7 +10,7 @@ import {
   setPointsAppearance,
 } from "./perigee-info-overlay";
 import { D3DatalessSelection, D3ScaleLinear, D3ScaleTime } from "./d3-alias-types";
-import { getUnrefinedPeaks } from "../common/peak-detection";
+import { getSuperPerigees } from "../lunar-events";
 import { getZoomFactors, ZoomExtents } from "./d3-helpers";
 
 const zoomExtents: ZoomExtents = {
@@ -40,7 +40,7 @@ export async function run(container: HTMLElement, state: State) {
   };
 
   const { startDate, endDate } = state.timeRange.getValue();
-  updateViewData(viewData, state.perigees.getValue(), state.selectedPerigee.getValue(), startDate, endDate);
+  updateViewData(viewData, state.lunarEvents.getValue().perigees, state.selectedPerigee.getValue(), startDate, endDate);
 
   updateViewComponents(viewComponents, viewDimensions, viewData, state);
 
@@ -49,7 +49,7 @@ export async function run(container: HTMLElement, state: State) {
     updateViewComponents(viewComponents, viewDimensions, viewData, state);
   });
 
-  state.perigees.subscribe((perigees) => {
+  state.lunarEvents.subscribe(({ perigees }) => {
     const { startDate, endDate } = state.timeRange.getValue();
     updateViewData(viewData, perigees, state.selectedPerigee.getValue(), startDate, endDate);
     updateViewComponents(viewComponents, viewDimensions, viewData, state);
@@ -183,14 +183,7 @@ function updateViewData(
   viewData.startDate = startDate;
   viewData.endDate = endDate;
 
-  viewData.perigees =
-    allPerigees.length > 3
-      ? getUnrefinedPeaks(
-          allPerigees,
-          (p) => p.date.getTime(),
-          (p) => -p.moonDistance
-        ).map((p) => p.peak)
-      : allPerigees;
+  viewData.perigees = getSuperPerigees(allPerigees);
 
   viewData.selectedPerigee =
     selectedPerigee !== null && viewData.perigees.includes(selectedPerigee) ? selectedPerigee : null;
@@ -4,11 +4,13 @@ Range slider based on:
 */
 
 import { axisBottom, brushX, create, D3BrushEvent, scaleUtc } from "d3";
-import { dataEndDate, dataStartDate } from "../constants";
 import { State } from "../state-types";
 import { toFriendlyUTC } from "../common/text-utils";
+import { getEphemerisTimeRange } from "../time-range";
 
 export async function run(container: HTMLElement, state: State) {
+  const ephemeris = await state.ephPromise;
+  const bounds = getEphemerisTimeRange(ephemeris);
   const width = container.clientWidth;
   const height = container.clientHeight;
   const marginTop = 1;
@@ -25,7 +27,7 @@ export async function run(container: HTMLElement, state: State) {
   container.append(svg.node()!);
 
   const xScale = scaleUtc()
-    .domain([dataStartDate, dataEndDate])
+    .domain([bounds.startDate, bounds.endDate])
     .range([marginLeft, width - marginRight])
     .nice();
 
@@ -118,7 +120,7 @@ export async function run(container: HTMLElement, state: State) {
       const oldTimeRange = state.timeRange.getValue();
       const interval = oldTimeRange.endDate.getTime() - oldTimeRange.startDate.getTime();
       const startDate = xScale.invert(e.offsetX);
-      const endTime = Math.min(dataEndDate.getTime(), startDate.getTime() + interval);
+      const endTime = Math.min(bounds.endDate.getTime(), startDate.getTime() + interval);
       const endDate = new Date(endTime);
 
       state.timeRange.setValue({ startDate, endDate });